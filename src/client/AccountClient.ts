@@ -5,6 +5,8 @@ import {
     FilteringParameters,
     Callback,
     DefaultResponse,
+    RequestOptions,
+    TokenProvider,
 } from './models';
 
 import {
@@ -28,10 +30,10 @@ export default class AccountClient extends BaseClient {
 
     /**
      * Create a new AccountClient
-     * @param accountToken The account token that should be used with requests.
+     * @param accountToken The account token that should be used with requests, or a token provider returning it.
      * @param configOptions Various options to customize client behavior.
      */
-    constructor(accountToken: string, configOptions?: ClientOptions.Configuration) {
+    constructor(accountToken: (string | TokenProvider), configOptions?: ClientOptions.Configuration) {
         super(accountToken, ClientOptions.DefaultHeaderNames.ACCOUNT_TOKEN, configOptions);
     }
 
@@ -40,11 +42,12 @@ export default class AccountClient extends BaseClient {
      *
      * @param filter - An optional filter for which data is retrieved.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getServers(filter: FilteringParameters = new FilteringParameters(), callback?: Callback<Servers>): Promise<Servers> {
+    getServers(filter: FilteringParameters = new FilteringParameters(), callback?: Callback<Servers>, requestOptions?: RequestOptions): Promise<Servers> {
         this.setDefaultPaginationValues(filter);
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/servers', filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/servers', filter, callback, requestOptions);
     };
 
     /**
@@ -52,10 +55,11 @@ export default class AccountClient extends BaseClient {
      *
      * @param id - The ID of the Server for which you wish to retrieve details.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getServer(id: number, callback?: Callback<Server>): Promise<Server> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/servers/${id}`, {}, callback);
+    getServer(id: number, callback?: Callback<Server>, requestOptions?: RequestOptions): Promise<Server> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/servers/${id}`, {}, callback, requestOptions);
     };
 
     /**
@@ -63,10 +67,11 @@ export default class AccountClient extends BaseClient {
      *
      * @param options - The options to be used to create new Server.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    createServer(options: CreateServerRequest, callback?: Callback<Server>): Promise<Server> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/servers', options, callback);
+    createServer(options: CreateServerRequest, callback?: Callback<Server>, requestOptions?: RequestOptions): Promise<Server> {
+        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/servers', options, callback, requestOptions);
     };
 
     /**
@@ -75,10 +80,11 @@ export default class AccountClient extends BaseClient {
      * @param id - The ID of the Server you wish to update.
      * @param options - The options to be used to create new Server.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    editServer(id: number, options: UpdateServerRequest, callback?: Callback<Server>): Promise<Server> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, `/servers/${id}`, options, callback);
+    editServer(id: number, options: UpdateServerRequest, callback?: Callback<Server>, requestOptions?: RequestOptions): Promise<Server> {
+        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, `/servers/${id}`, options, callback, requestOptions);
     };
 
     /**
@@ -86,10 +92,11 @@ export default class AccountClient extends BaseClient {
      *
      * @param id - The ID of the Domain you wish to delete.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    deleteServer(id: number, callback?: Callback<DefaultResponse>): Promise<DefaultResponse> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.DELETE, `/servers/${id}`, {}, callback);
+    deleteServer(id: number, callback?: Callback<DefaultResponse>, requestOptions?: RequestOptions): Promise<DefaultResponse> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.DELETE, `/servers/${id}`, {}, callback, requestOptions);
     };
 
     /**
@@ -97,11 +104,12 @@ export default class AccountClient extends BaseClient {
      *
      * @param filter - An optional filter for which data is retrieved.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getDomains(filter: FilteringParameters = new FilteringParameters(), callback?: Callback<Domains>): Promise<Domains> {
+    getDomains(filter: FilteringParameters = new FilteringParameters(), callback?: Callback<Domains>, requestOptions?: RequestOptions): Promise<Domains> {
         this.setDefaultPaginationValues(filter);
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/domains', filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/domains', filter, callback, requestOptions);
     };
 
     /**
@@ -109,10 +117,11 @@ export default class AccountClient extends BaseClient {
      *
      * @param id - The ID of the Domain for which you wish to retrieve details.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getDomain(id: number, callback?: Callback<DomainDetails>): Promise<DomainDetails> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/domains/${id}`, {}, callback);
+    getDomain(id: number, callback?: Callback<DomainDetails>, requestOptions?: RequestOptions): Promise<DomainDetails> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/domains/${id}`, {}, callback, requestOptions);
     };
 
     /**
@@ -120,10 +129,11 @@ export default class AccountClient extends BaseClient {
      *
      * @param options - The options to be used to create new Domain.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    createDomain(options: CreateDomainRequest, callback?: Callback<DomainDetails>): Promise<DomainDetails> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/domains/', options, callback);
+    createDomain(options: CreateDomainRequest, callback?: Callback<DomainDetails>, requestOptions?: RequestOptions): Promise<DomainDetails> {
+        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/domains/', options, callback, requestOptions);
     };
 
     /**
@@ -132,10 +142,11 @@ export default class AccountClient extends BaseClient {
      * @param id - The ID of the Domain you wish to update.
      * @param domain - The values on the Domain you wish to update.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    editDomain(id: number, options: UpdateDomainRequest, callback?: Callback<DomainDetails>): Promise<DomainDetails> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, `/domains/${id}`, options, callback);
+    editDomain(id: number, options: UpdateDomainRequest, callback?: Callback<DomainDetails>, requestOptions?: RequestOptions): Promise<DomainDetails> {
+        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, `/domains/${id}`, options, callback, requestOptions);
     }
 
     /**
@@ -144,10 +155,11 @@ export default class AccountClient extends BaseClient {
      * @param id - The ID of the Domain you wish to delete.
      * @param options - The options to be used in create Domain.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    deleteDomain(id: number, callback?: Callback<DefaultResponse>): Promise<DefaultResponse> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.DELETE, `/domains/${id}`, {}, callback);
+    deleteDomain(id: number, callback?: Callback<DefaultResponse>, requestOptions?: RequestOptions): Promise<DefaultResponse> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.DELETE, `/domains/${id}`, {}, callback, requestOptions);
     };
 
     /**
@@ -155,10 +167,11 @@ export default class AccountClient extends BaseClient {
      *
      * @param id - The ID of the Domain you wish to trigger DKIM verification for.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    verifyDomainDKIM(id: number, callback?: Callback<DomainDetails>): Promise<DomainDetails> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.PUT, `/domains/${id}/verifyDKIM`, {}, callback);
+    verifyDomainDKIM(id: number, callback?: Callback<DomainDetails>, requestOptions?: RequestOptions): Promise<DomainDetails> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.PUT, `/domains/${id}/verifyDKIM`, {}, callback, requestOptions);
     }
 
     /**
@@ -166,10 +179,11 @@ export default class AccountClient extends BaseClient {
      *
      * @param id - The ID of the Domain you wish to trigger DKIM verification for.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    verifyDomainReturnPath(id: number, callback?: Callback<DomainDetails>): Promise<DomainDetails> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.PUT, `/domains/${id}/verifyReturnPath`, {}, callback);
+    verifyDomainReturnPath(id: number, callback?: Callback<DomainDetails>, requestOptions?: RequestOptions): Promise<DomainDetails> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.PUT, `/domains/${id}/verifyReturnPath`, {}, callback, requestOptions);
     }
 
     /**
@@ -177,10 +191,11 @@ export default class AccountClient extends BaseClient {
      *
      * @param id - The ID of the Domain you wish to trigger DKIM verification for.
      * @param callback If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    verifyDomainSPF(id: number, callback?: Callback<DomainDetails>): Promise<DomainDetails> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.PUT, `/domains/${id}/verifySPF`, {}, callback);
+    verifyDomainSPF(id: number, callback?: Callback<DomainDetails>, requestOptions?: RequestOptions): Promise<DomainDetails> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.PUT, `/domains/${id}/verifySPF`, {}, callback, requestOptions);
     }
 
     /**
@@ -188,10 +203,11 @@ export default class AccountClient extends BaseClient {
      *
      * @param id - The ID of the Domain you wish to trigger DKIM verification for.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    rotateDomainDKIM(id: number, callback?: Callback<DomainDetails>): Promise<DomainDetails> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.PUT, `/domains/${id}/rotateDKIM`, {}, callback);
+    rotateDomainDKIM(id: number, callback?: Callback<DomainDetails>, requestOptions?: RequestOptions): Promise<DomainDetails> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.PUT, `/domains/${id}/rotateDKIM`, {}, callback, requestOptions);
     }
 
     /**
@@ -199,10 +215,11 @@ export default class AccountClient extends BaseClient {
      *
      * @param id - The ID of the Sender Signature for which you wish to retrieve details.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getSenderSignature(id: number, callback?: Callback<SignatureDetails>): Promise<SignatureDetails> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/senders/${id}`, {}, callback);
+    getSenderSignature(id: number, callback?: Callback<SignatureDetails>, requestOptions?: RequestOptions): Promise<SignatureDetails> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/senders/${id}`, {}, callback, requestOptions);
     };
 
     /**
@@ -210,11 +227,12 @@ export default class AccountClient extends BaseClient {
      *
      * @param filter - An optional filter for which data is retrieved.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getSenderSignatures(filter: FilteringParameters = new FilteringParameters(), callback?: Callback<Signatures>): Promise<Signatures> {
+    getSenderSignatures(filter: FilteringParameters = new FilteringParameters(), callback?: Callback<Signatures>, requestOptions?: RequestOptions): Promise<Signatures> {
         this.setDefaultPaginationValues(filter);
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/senders', filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/senders', filter, callback, requestOptions);
     };
 
     /**
@@ -222,10 +240,11 @@ export default class AccountClient extends BaseClient {
      *
      * @param options - The options to be used to create new Sender Signature.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    createSenderSignature(options: CreateSignatureRequest, callback?: Callback<SignatureDetails>): Promise<SignatureDetails> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/senders/', options, callback);
+    createSenderSignature(options: CreateSignatureRequest, callback?: Callback<SignatureDetails>, requestOptions?: RequestOptions): Promise<SignatureDetails> {
+        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/senders/', options, callback, requestOptions);
     };
 
 
@@ -235,10 +254,11 @@ export default class AccountClient extends BaseClient {
      * @param id - The ID of the Sender Signature for which you wish to update.
      * @param options - The values on the Sender Signature you wish to update.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    editSenderSignature(id: number, options: UpdateSignatureRequest, callback?: Callback<SignatureDetails>): Promise<SignatureDetails> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, `/senders/${id}`, options, callback);
+    editSenderSignature(id: number, options: UpdateSignatureRequest, callback?: Callback<SignatureDetails>, requestOptions?: RequestOptions): Promise<SignatureDetails> {
+        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, `/senders/${id}`, options, callback, requestOptions);
     };
 
     /**
@@ -247,10 +267,11 @@ export default class AccountClient extends BaseClient {
      * @param id - The ID of the Domain you wish to delete.
      * @param options - The options to be used in create Domain.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    deleteSenderSignature(id: number, callback?: Callback<DefaultResponse>): Promise<DefaultResponse> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.DELETE, `/senders/${id}`, {}, callback);
+    deleteSenderSignature(id: number, callback?: Callback<DefaultResponse>, requestOptions?: RequestOptions): Promise<DefaultResponse> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.DELETE, `/senders/${id}`, {}, callback, requestOptions);
     };
 
     /**
@@ -258,10 +279,11 @@ export default class AccountClient extends BaseClient {
      *
      * @param id - The ID of the Sender Signature.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    resendSenderSignatureConfirmation(id: number, callback?: Callback<DefaultResponse>): Promise<DefaultResponse> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.POST, `/senders/${id}/resend`, {}, callback);
+    resendSenderSignatureConfirmation(id: number, callback?: Callback<DefaultResponse>, requestOptions?: RequestOptions): Promise<DefaultResponse> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.POST, `/senders/${id}/resend`, {}, callback, requestOptions);
     };
 
     /**
@@ -269,10 +291,11 @@ export default class AccountClient extends BaseClient {
      *
      * @param id - The ID of the Sender Signature.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    verifySenderSignatureSPF(id: number, callback?: Callback<SignatureDetails>): Promise<SignatureDetails> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.POST, `/senders/${id}/verifySpf`, {}, callback);
+    verifySenderSignatureSPF(id: number, callback?: Callback<SignatureDetails>, requestOptions?: RequestOptions): Promise<SignatureDetails> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.POST, `/senders/${id}/verifySpf`, {}, callback, requestOptions);
     };
 
 
@@ -281,9 +304,10 @@ export default class AccountClient extends BaseClient {
      *
      * @param id - The ID of the Sender Signature.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    requestNewDKIMForSenderSignature(id: number, callback?: Callback<SignatureDetails>): Promise<SignatureDetails> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.POST, `/senders/${id}/requestNewDkim`, {}, callback);
+    requestNewDKIMForSenderSignature(id: number, callback?: Callback<SignatureDetails>, requestOptions?: RequestOptions): Promise<SignatureDetails> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.POST, `/senders/${id}/requestNewDkim`, {}, callback, requestOptions);
     };
 }
@@ -0,0 +1,172 @@
+import * as url from 'url';
+
+import { Address, AddressField, Addresses, MailboxAddress, Recipient } from "./models";
+
+/**
+ * Parts of a single mailbox collected while parsing address list.
+ */
+interface MailboxParts {
+    raw: string;
+    displayName: string;
+    angleAddress?: string;
+}
+
+/**
+ * This class parses and formats RFC 5322 mailbox lists, like "John Smith" <john@example.com>, jane@example.com.
+ * Display names can be quoted and contain commas and escaped characters, internationalized domains are converted to punycode.
+ */
+export class AddressList {
+    /**
+     * Fields of messages and templated messages containing addresses.
+     */
+    public static MessageFields: AddressField[] = ['From', 'To', 'Cc', 'Bcc', 'ReplyTo'];
+
+    /**
+     * Parse addresses into recipients with email address and display name.
+     * Group names and comments are left out, for example "Team: john@example.com (John);" is parsed as john@example.com.
+     *
+     * @example
+     * AddressList.parse('"Smith, John" <john@example.com>, jane@example.com');
+     * // [{ Email: 'john@example.com', Name: 'Smith, John' }, { Email: 'jane@example.com', Name: '' }]
+     *
+     * @param addresses - Address list string, address object or array of them.
+     *
+     * @returns parsed recipients, display name is empty string when address has no display name.
+     */
+    public static parse(addresses?: (Addresses | null)): Recipient[] {
+        if (addresses === undefined || addresses === null) {
+            return [];
+        }
+
+        const list: Address[] = Array.isArray(addresses) ? addresses : [addresses];
+
+        return list.reduce((recipients: Recipient[], address: Address) => recipients.concat(
+            (typeof address === 'string') ? AddressList.parseList(address) :
+                [{ Email: String(address.Email || '').trim(), Name: String(address.Name || '').trim() }]), []);
+    }
+
+    /**
+     * Format addresses into comma separated address list, the way the API expects them.
+     * Display names are quoted when needed and domains are converted to punycode.
+     *
+     * @example
+     * AddressList.format([{ Email: 'john@bücher.de', Name: 'Smith, John' }, 'jane@example.com']);
+     * // "Smith, John" <john@xn--bcher-kva.de>, jane@example.com
+     *
+     * @param addresses - Address list string, address object or array of them.
+     *
+     * @returns address list, empty string when there are no addresses.
+     */
+    public static format(addresses?: (Addresses | null)): string {
+        return AddressList.parse(addresses).map(recipient => AddressList.formatAddress(recipient)).join(', ');
+    }
+
+    /**
+     * Format single address, for example "Smith, John" <john@example.com>.
+     *
+     * @param address - Email address and optional display name.
+     */
+    public static formatAddress(address: MailboxAddress): string {
+        const email = AddressList.toASCII(address.Email.trim());
+        const name = (address.Name || '').trim();
+
+        if (name === '') {
+            return email;
+        }
+
+        const displayName = /^[A-Za-z0-9!#$%&'*+\-\/=?^_`{|}~ ]+$/.test(name) ? name : `"${name.replace(/(["\\])/g, '\\$1')}"`;
+        return `${displayName} <${email}>`;
+    }
+
+    /**
+     * Convert internationalized domain of email address to punycode, for example john@bücher.de to john@xn--bcher-kva.de.
+     * Email address is left unchanged when domain can't be converted.
+     */
+    public static toASCII(email: string): string {
+        const separator = email.lastIndexOf('@');
+        if (separator === -1) {
+            return email;
+        }
+
+        const domain = email.substring(separator + 1);
+        return `${email.substring(0, separator)}@${url.domainToASCII(domain) || domain}`;
+    }
+
+    /**
+     * Check whether email address, without display name, is valid.
+     */
+    public static isValid(email: string): boolean {
+        return /^[^\s@<>,;]+@[^\s@<>,;]+\.[^\s@<>,;]+$/.test(AddressList.toASCII(email));
+    }
+
+    /**
+     * Split address list on commas and semicolons which are not part of quoted string, comment or angle address.
+     */
+    private static parseList(addresses: string): Recipient[] {
+        const recipients: Recipient[] = [];
+        let parts: MailboxParts = { raw: '', displayName: '' };
+        let quoted = false;
+        let commentDepth = 0;
+        let inAngleAddress = false;
+
+        for (let index = 0; index < addresses.length; index++) {
+            const character = addresses[index];
+
+            if (quoted || commentDepth > 0) {
+                if (character === '\\' && index + 1 < addresses.length) {
+                    index++;
+                    if (quoted) {
+                        parts.raw += character + addresses[index];
+                        parts.displayName += addresses[index];
+                    }
+                }
+                else if (quoted) {
+                    quoted = (character !== '"');
+                    parts.raw += character;
+                    parts.displayName += quoted ? character : '';
+                }
+                else {
+                    commentDepth += (character === '(') ? 1 : (character === ')') ? -1 : 0;
+                }
+            }
+            else if (inAngleAddress) {
+                inAngleAddress = (character !== '>');
+                parts.angleAddress += inAngleAddress ? character : '';
+            }
+            else if (character === '"') {
+                quoted = true;
+                parts.raw += character;
+            }
+            else if (character === '(') {
+                commentDepth = 1;
+            }
+            else if (character === '<') {
+                inAngleAddress = true;
+                parts.angleAddress = '';
+            }
+            else if (character === ',' || character === ';') {
+                AddressList.addRecipient(recipients, parts);
+                parts = { raw: '', displayName: '' };
+            }
+            else if (character === ':') {
+                parts = { raw: '', displayName: '' };
+            }
+            else {
+                parts.raw += character;
+                parts.displayName += character;
+            }
+        }
+
+        AddressList.addRecipient(recipients, parts);
+        return recipients;
+    }
+
+    private static addRecipient(recipients: Recipient[], parts: MailboxParts): void {
+        if (parts.angleAddress !== undefined) {
+            recipients.push({ Email: parts.angleAddress.trim(), Name: parts.displayName.replace(/\s+/g, ' ').trim() });
+        }
+        else if (parts.raw.trim() !== '') {
+            recipients.push({ Email: parts.raw.trim(), Name: '' });
+        }
+    }
+}
@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Attachment, AttachmentOptions } from "./models";
+import { Hash } from "./models/client/SupportingTypes";
+import * as Errors from "./models/client/Errors";
+
+interface MagicNumber {
+    offset: number;
+    bytes: number[];
+    contentType: string;
+}
+
+/**
+ * This class creates attachments from files, buffers and streams. Content is encoded to base64,
+ * and content type is detected from content or file extension when it is not provided.
+ */
+export class AttachmentFactory {
+    public static DefaultContentType: string = 'application/octet-stream';
+
+    /**
+     * Content types of common file extensions.
+     */
+    public static ContentTypes: Hash<string> = {
+        'txt': 'text/plain', 'csv': 'text/csv', 'htm': 'text/html', 'html': 'text/html', 'css': 'text/css',
+        'ics': 'text/calendar', 'xml': 'application/xml', 'json': 'application/json', 'pdf': 'application/pdf',
+        'zip': 'application/zip', 'gz': 'application/gzip', 'rtf': 'application/rtf',
+        'doc': 'application/msword', 'xls': 'application/vnd.ms-excel', 'ppt': 'application/vnd.ms-powerpoint',
+        'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+        'png': 'image/png', 'jpg': 'image/jpeg', 'jpeg': 'image/jpeg', 'gif': 'image/gif', 'bmp': 'image/bmp',
+        'webp': 'image/webp', 'svg': 'image/svg+xml', 'ico': 'image/x-icon', 'tif': 'image/tiff', 'tiff': 'image/tiff',
+        'mp3': 'audio/mpeg', 'wav': 'audio/wav', 'mp4': 'video/mp4', 'mov': 'video/quicktime'
+    };
+
+    /**
+     * Leading bytes of common binary formats.
+     */
+    private static MagicNumbers: MagicNumber[] = [
+        { offset: 0, bytes: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A], contentType: 'image/png' },
+        { offset: 0, bytes: [0xFF, 0xD8, 0xFF], contentType: 'image/jpeg' },
+        { offset: 0, bytes: [0x47, 0x49, 0x46, 0x38], contentType: 'image/gif' },
+        { offset: 8, bytes: [0x57, 0x45, 0x42, 0x50], contentType: 'image/webp' },
+        { offset: 0, bytes: [0x49, 0x49, 0x2A, 0x00], contentType: 'image/tiff' },
+        { offset: 0, bytes: [0x4D, 0x4D, 0x00, 0x2A], contentType: 'image/tiff' },
+        { offset: 0, bytes: [0x25, 0x50, 0x44, 0x46], contentType: 'application/pdf' },
+        { offset: 0, bytes: [0x1F, 0x8B], contentType: 'application/gzip' },
+        { offset: 0, bytes: [0x50, 0x4B, 0x03, 0x04], contentType: 'application/zip' }
+    ];
+
+    /**
+     * Create attachment from file.
+     *
+     * @param filePath - Path of the file to attach.
+     * @param options - Attachment name, content type and inline options.
+     *
+     * @returns A promise that will complete with the attachment once the file is read.
+     */
+    public static fromFile(filePath: string, options: AttachmentOptions = {}): Promise<Attachment> {
+        return new Promise<Attachment>((resolve, reject) => {
+            fs.readFile(filePath, (error, content) => {
+                if (error) {
+                    reject(error);
+                }
+                else {
+                    try {
+                        resolve(AttachmentFactory.fromBuffer(content, { ...options, name: options.name || path.basename(filePath) }));
+                    } catch (error) {
+                        reject(error);
+                    }
+                }
+            });
+        });
+    }
+
+    /**
+     * Create attachment from buffer.
+     *
+     * @param content - Attachment content.
+     * @param options - Attachment name, content type and inline options. Name is required.
+     * Content ID is prefixed with cid: when it doesn't have the prefix, since it is used as image source in HTML body.
+     *
+     * @returns attachment with base64 encoded content.
+     */
+    public static fromBuffer(content: Buffer, options: AttachmentOptions): Attachment {
+        const name = options.name;
+        if (name === undefined || name.trim() === '') {
+            throw new Errors.PostmarkError('Attachment name must be provided.');
+        }
+
+        const contentType = options.contentType || AttachmentFactory.detectContentType(name, content);
+        const contentId = (options.inline || options.contentId !== undefined) ?
+            AttachmentFactory.formatContentId(options.contentId || name) : null;
+
+        return new Attachment(name, content.toString('base64'), contentType, contentId);
+    }
+
+    /**
+     * Create attachment from readable stream.
+     *
+     * @param stream - Stream with attachment content.
+     * @param options - Attachment name, content type and inline options. Name is required.
+     *
+     * @returns A promise that will complete with the attachment once the stream ends.
+     */
+    public static fromStream(stream: NodeJS.ReadableStream, options: AttachmentOptions): Promise<Attachment> {
+        return new Promise<Attachment>((resolve, reject) => {
+            const chunks: Buffer[] = [];
+
+            stream.on('data', (chunk: (Buffer | string)) => chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk));
+            stream.on('error', reject);
+            stream.on('end', () => {
+                try {
+                    resolve(AttachmentFactory.fromBuffer(Buffer.concat(chunks), options));
+                } catch (error) {
+                    reject(error);
+                }
+            });
+        });
+    }
+
+    /**
+     * Detect content type from file extension, or from leading bytes of content when extension is not recognized.
+     * Extension is checked first, because some formats share leading bytes, for example docx files are zip containers.
+     *
+     * @param name - Attachment file name.
+     * @param content - Attachment content.
+     *
+     * @returns detected content type, or application/octet-stream when content type can't be detected.
+     */
+    public static detectContentType(name: string, content?: Buffer): string {
+        const extension = path.extname(name).replace(/^\./, '').toLowerCase();
+        if (AttachmentFactory.ContentTypes.hasOwnProperty(extension)) {
+            return AttachmentFactory.ContentTypes[extension];
+        }
+
+        const magicNumber = (content === undefined) ? undefined : AttachmentFactory.MagicNumbers.find(candidate =>
+            content.length >= candidate.offset + candidate.bytes.length &&
+            candidate.bytes.every((byte, index) => content[candidate.offset + index] === byte));
+
+        return (magicNumber !== undefined) ? magicNumber.contentType : AttachmentFactory.DefaultContentType;
+    }
+
+    /**
+     * Replace image references in HTML body with cid: URLs of inline attachments.
+     * Image is referenced when its src is attachment name, or a path ending with attachment name.
+     *
+     * @example
+     * message.HtmlBody = AttachmentFactory.embedInlineImages('<img src="images/logo.png">', message.Attachments);
+     * // <img src="cid:logo.png">
+     *
+     * @param htmlBody - HTML body of the message.
+     * @param attachments - Message attachments.
+     *
+     * @returns HTML body referencing inline attachments.
+     */
+    public static embedInlineImages(htmlBody: string, attachments: Attachment[] = []): string {
+        const inlineAttachments = attachments.filter(attachment => attachment.ContentID);
+
+        return htmlBody.replace(/(<img\b[^>]*?\bsrc\s*=\s*)(["'])(.*?)\2/gi, (image: string, prefix: string, quote: string, source: string) => {
+            const fileName = source.split(/[\/\\]/).pop();
+            const attachment = inlineAttachments.find(candidate => candidate.Name === source || candidate.Name === fileName);
+
+            return (attachment !== undefined) ? `${prefix}${quote}${attachment.ContentID}${quote}` : image;
+        });
+    }
+
+    /**
+     * Format content ID as cid: URL, for example company-logo and <company-logo> are formatted as cid:company-logo.
+     */
+    private static formatContentId(contentId: string): string {
+        return /^cid:/i.test(contentId) ? contentId : `cid:${contentId.replace(/^<|>$/g, '')}`;
+    }
+}
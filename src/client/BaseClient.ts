@@ -1,8 +1,17 @@
-import * as request from 'request';
-
-import {ClientOptions, Callback, FilteringParameters} from './models';
+import {
+    ApiCallResult, ApiResponse, BatchResult, ClientOptions, Callback, FilteringParameters, MessageSendingResponse, Middleware,
+    MiddlewareRequest, RateLimitOptions, RequestOptions, TokenProvider, Transport, TransportRequest, TransportResponse
+} from './models';
+import {Hash} from './models/client/SupportingTypes';
 import * as Errors from './models/client/Errors';
 import { ErrorHandler } from "./ErrorHandler";
+import { RetryHandler } from "./RetryHandler";
+import { RateLimiter } from "./RateLimiter";
+import { BatchChunkResult, BatchHandler } from "./BatchHandler";
+import { RequestLogger } from "./RequestLogger";
+import { InstrumentationHandler } from "./InstrumentationHandler";
+import { CredentialProvider } from "./CredentialProvider";
+import { HttpTransport } from "./transport/HttpTransport";
 
 const packageJson = require("../../package.json");
 const CLIENT_VERSION = packageJson.version;
@@ -28,16 +37,69 @@ export default abstract class BaseClient {
     public clientVersion: string;
     protected errorHandler: ErrorHandler;
     private readonly authHeader: string;
-    private readonly token: string;
+    private readonly credentials: CredentialProvider;
+    private readonly defaultTransport: Transport;
 
-    protected constructor(token: string, authHeader: string, configOptions?: ClientOptions.Configuration) {
-        this.verifyToken(token);
+    protected constructor(token: (string | TokenProvider), authHeader: string, configOptions?: ClientOptions.Configuration) {
+        if (typeof token !== 'function') {
+            this.verifyToken(token);
+        }
+        this.verifyBaseUrl(configOptions);
 
         this.clientVersion = CLIENT_VERSION;
-        this.token = token.trim();
+        this.credentials = new CredentialProvider(token);
         this.authHeader = authHeader;
         this.clientOptions = { ...BaseClient.DefaultOptions, ...configOptions };
         this.errorHandler = new ErrorHandler();
+        this.defaultTransport = new HttpTransport();
+    }
+
+    /**
+     * Add middleware to the end of this client's middleware chain.
+     *
+     * @param middleware - Middleware that will wrap all requests made by this client.
+     * @returns This client, so that calls can be chained.
+     */
+    public use(middleware: Middleware): this {
+        this.clientOptions.middleware = [...(this.clientOptions.middleware || []), middleware];
+        return this;
+    }
+
+    /**
+     * Execute a client call and return its result together with HTTP response metadata.
+     * When the call completes without an HTTP response, for example when message is sent with SMTP fallback,
+     * status, headers and duration are null.
+     *
+     * @example
+     * const response = await client.withResponse(options => client.getBounces(undefined, undefined, options));
+     * console.log(response.status, response.headers, response.data.TotalCount);
+     *
+     * @param call - Function making a single client call with provided request options.
+     * @param requestOptions - Optional options for the request, such as signal used to cancel it.
+     * @returns A promise that will complete with response data and metadata when the API responds (or an error occurs).
+     */
+    public withResponse<T>(call: (requestOptions: RequestOptions) => Promise<T>,
+        requestOptions: RequestOptions = {}): Promise<ApiCallResult<T>> {
+        let apiResponse: (ApiResponse<T> | undefined);
+
+        return call({
+            ...requestOptions,
+            onResponse: (response: ApiResponse<T>) => {
+                apiResponse = response;
+                if (requestOptions.onResponse) { requestOptions.onResponse(response); }
+            }
+        }).then(data => {
+            return apiResponse || { data: data, status: null, headers: null, durationMs: null };
+        });
+    }
+
+    /**
+     * Get the current API token, from token provider when it is used.
+     *
+     * @returns A promise that will complete with the token.
+     */
+    protected getToken(): Promise<string> {
+        return this.credentials.getToken(this.clientOptions.tokenCacheTtl);
     }
 
     /**
@@ -46,8 +108,8 @@ export default abstract class BaseClient {
      * @see processRequest for more details.
      **/
     protected processRequestWithBody<T>(method: ClientOptions.HttpMethod, path: string, body: (null | object),
-        callback?: Callback<T>): Promise<T> {
-        return this.processRequest(method, path, {}, body, callback);
+        callback?: Callback<T>, requestOptions?: RequestOptions): Promise<T> {
+        return this.processRequest(method, path, {}, body, callback, requestOptions);
     }
 
     /**
@@ -56,8 +118,124 @@ export default abstract class BaseClient {
      * @see processRequest for more details.
      **/
     protected processRequestWithoutBody<T>(method: ClientOptions.HttpMethod, path: string, queryParameters: object = {},
-        callback?: Callback<T>): Promise<T> {
-        return this.processRequest(method, path, queryParameters, null, callback);
+        callback?: Callback<T>, requestOptions?: RequestOptions): Promise<T> {
+        return this.processRequest(method, path, queryParameters, null, callback, requestOptions);
+    }
+
+    /**
+     * Process batch request. Messages are split into chunks the API accepts, and chunks are sent with bounded concurrency,
+     * according to batch options in client options. Response callback in request options is called once, with responses
+     * of all chunks. When a chunk fails after other chunks were accepted, request fails with [[BatchInterruptedError]],
+     * containing responses of accepted messages.
+     *
+     * @param path - API URL endpoint.
+     * @param messages - Messages to send, there is no limit on the number of messages.
+     * @param buildBody - Function building request body from a chunk of messages.
+     * @param callback - callback function to be executed.
+     * @param requestOptions - see processHttpRequest for details
+     *
+     * @returns A promise that will complete with responses in the same order as messages (or when an error occurs).
+     */
+    protected processBatchRequest<T, R>(path: string, messages: T[], buildBody: (chunk: T[]) => object,
+        callback?: Callback<R[]>, requestOptions?: RequestOptions): Promise<R[]> {
+        const batchHandler = new BatchHandler(this.clientOptions.batch);
+        const httpRequest = this.processBatchChunks<T, R, R[]>(batchHandler, path, messages, buildBody, true,
+            chunks => batchHandler.joinResponses(chunks), requestOptions);
+
+        this.processCallbackRequest(httpRequest, callback);
+        return httpRequest;
+    }
+
+    /**
+     * Process batch request, and pair every message with its response. Chunks are sent even when other chunks fail,
+     * messages of failed chunks are marked as failed in the result, so that they can be sent again.
+     * When strict mode is enabled in batch options, batches with failed messages fail with [[BatchPartialFailureError]].
+     * Response callback in request options is called once, with the batch result.
+     *
+     * @see processBatchRequest for more details.
+     *
+     * @returns A promise that will complete with batch result when all chunks are sent (or an error occurs).
+     */
+    protected processBatchRequestWithResult<T>(path: string, messages: T[], buildBody: (chunk: T[]) => object,
+        callback?: Callback<BatchResult<T>>, requestOptions: RequestOptions = {}): Promise<BatchResult<T>> {
+        const batchHandler = new BatchHandler(this.clientOptions.batch);
+        const send = (batch: T[], options: RequestOptions): Promise<BatchResult<T>> =>
+            this.processBatchChunks<T, MessageSendingResponse, BatchResult<T>>(batchHandler, path, batch, buildBody, false,
+                chunks => this.createBatchResult(chunks, resend), options);
+        const resend = (batch: T[]) => send(batch, { signal: requestOptions.signal });
+
+        const httpRequest = send(messages, requestOptions).then(result => {
+            if (this.clientOptions.batch !== undefined && this.clientOptions.batch.strict && result.hasFailures) {
+                throw new Errors.BatchPartialFailureError<T>(
+                    `${result.failed.length} of ${result.entries.length} batch messages were rejected.`, result);
+            }
+            return result;
+        });
+
+        this.processCallbackRequest(httpRequest, callback);
+        return httpRequest;
+    }
+
+    /**
+     * Send batch in chunks, and build response data from results of all chunks. Response callback in request options is
+     * called once, with built data, status and headers of the last chunk response and duration of the whole batch.
+     *
+     * @param batchHandler - Batch handler splitting and sending chunks.
+     * @param path - API URL endpoint.
+     * @param messages - Messages to send.
+     * @param buildBody - Function building request body from a chunk of messages.
+     * @param stopOnError - Don't send remaining chunks after a chunk fails.
+     * @param buildData - Function building response data from results of all chunks.
+     * @param requestOptions - see processHttpRequest for details
+     *
+     * @returns A promise that will complete with response data once all chunks are sent.
+     */
+    private processBatchChunks<T, R, D>(batchHandler: BatchHandler, path: string, messages: T[], buildBody: (chunk: T[]) => object,
+        stopOnError: boolean, buildData: (chunks: Array<BatchChunkResult<T, R>>) => D, requestOptions: RequestOptions = {}): Promise<D> {
+        const overhead = Buffer.byteLength(JSON.stringify(buildBody([]))) - 2;
+        const startedAt = Date.now();
+        let lastResponse: (ApiResponse<R[]> | undefined);
+        const chunkOptions: RequestOptions = { signal: requestOptions.signal, onResponse: response => lastResponse = response };
+
+        return batchHandler.sendChunks<T, R>(messages, chunk =>
+            this.processHttpRequest<R[]>(ClientOptions.HttpMethod.POST, path, {}, buildBody(chunk), chunkOptions), overhead, stopOnError)
+            .then(chunks => {
+                const data = buildData(chunks);
+
+                if (requestOptions.onResponse && lastResponse !== undefined) {
+                    requestOptions.onResponse({
+                        data: data,
+                        status: lastResponse.status,
+                        headers: lastResponse.headers,
+                        durationMs: Date.now() - startedAt
+                    });
+                }
+
+                return data;
+            });
+    }
+
+    /**
+     * Pair messages with responses of their chunks. Messages of failed chunks get the chunk error,
+     * and a response describing it.
+     */
+    private createBatchResult<T>(chunks: Array<BatchChunkResult<T, MessageSendingResponse>>,
+        resend: (messages: T[]) => Promise<BatchResult<T>>): BatchResult<T> {
+        const messages: T[] = [];
+        const responses: MessageSendingResponse[] = [];
+        const errors: Array<Errors.PostmarkError | undefined> = [];
+
+        chunks.forEach(chunk => chunk.messages.forEach((message, index) => {
+            // chunks are sent with processHttpRequest, which rejects with Postmark errors
+            const error = <(Errors.PostmarkError | undefined)>chunk.error;
+
+            messages.push(message);
+            errors.push(error);
+            responses.push((error === undefined) ? (<MessageSendingResponse[]>chunk.responses)[index] :
+                { SubmittedAt: '', MessageID: '', ErrorCode: error.code, Message: error.message });
+        }));
+
+        return new BatchResult(messages, responses, resend, errors);
     }
 
     /**
@@ -68,35 +246,107 @@ export default abstract class BaseClient {
      * @param queryParameters - see processHttpRequest for details
      * @param body - see processHttpRequest for details
      * @param callback - callback function to be executed.
+     * @param requestOptions - see processHttpRequest for details
      *
      * @returns A promise that will complete when the API responds (or an error occurs).
      **/
     private processRequest<T>(method: ClientOptions.HttpMethod, path: string, queryParameters: object,
-        body: (null | object), callback?: Callback<T>): Promise<T> {
+        body: (null | object), callback?: Callback<T>, requestOptions?: RequestOptions): Promise<T> {
 
-        let httpRequest: Promise<T> = this.processHttpRequest(method, path, queryParameters, body);
+        let httpRequest: Promise<T> = this.processHttpRequest(method, path, queryParameters, body, requestOptions);
         this.processCallbackRequest(httpRequest, callback);
         return httpRequest;
     }
 
     /**
-     * Process HTTP request.
+     * Process HTTP request. Failed requests are retried according to the retry policy in client options,
+     * and the whole call is reported to the instrumentation from client options.
+     * When token provider is used and API rejects the token, token is refreshed once and request is repeated.
      *
      * @param method - Which type of http request will be executed.
      * @param path - API URL endpoint.
      * @param queryParameters - Querystring parameters used for http request.
      * @param body - Data sent with http request.
+     * @param requestOptions - Options for this request, such as signal used to cancel it.
      *
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    private processHttpRequest<T>(method: ClientOptions.HttpMethod, path: string, queryParameters: object, body: (null | object)): Promise<T> {
-        return this.promisifiedHttpRequest(method, path, queryParameters, body)
+    private processHttpRequest<T>(method: ClientOptions.HttpMethod, path: string, queryParameters: object, body: (null | object),
+        requestOptions: RequestOptions = {}): Promise<T> {
+        const retryHandler = new RetryHandler(this.clientOptions.retryPolicy);
+        const instrumentedCall = new InstrumentationHandler(this.clientOptions.instrumentation).startCall(method, path);
+        const startedAt = Date.now();
+        let attempts = 0;
+        let statusCode = 0;
+        let tokenRefreshed = false;
+
+        const httpRequest = retryHandler.execute(method, () => {
+            attempts++;
+            return this.httpRequest(method, path, queryParameters, body, requestOptions.signal)
+                .catch(error => {
+                    if (error.statusCode !== 401 || tokenRefreshed || !this.credentials.canRefresh) {
+                        throw error;
+                    }
+
+                    tokenRefreshed = true;
+                    return this.credentials.refresh()
+                        .then(() => this.httpRequest(method, path, queryParameters, body, requestOptions.signal));
+                });
+        }, requestOptions.signal);
+
+        const result = this.abortableRequest(httpRequest, requestOptions.signal)
             .then(response => {
+                statusCode = response.statusCode;
+                if (requestOptions.onResponse) {
+                    requestOptions.onResponse({
+                        data: response.body,
+                        status: response.statusCode,
+                        headers: response.headers,
+                        durationMs: Date.now() - startedAt
+                    });
+                }
+
                 return <T>response.body;
             })
             .catch(error => {
-                throw this.errorHandler.generateError(error);
+                throw this.errorHandler.generateError(error, { method: method, path: path, attempts: attempts });
             });
+
+        result.then(() => instrumentedCall.succeed(statusCode, attempts), error => instrumentedCall.fail(error));
+        return result;
+    }
+
+    /**
+     * Reject request as soon as signal is aborted, even if the transport doesn't support cancellation.
+     *
+     * @param httpRequest - HTTP request which can be cancelled.
+     * @param signal - Signal used to cancel the request.
+     *
+     * @returns A promise that will complete when the request completes or the signal is aborted.
+     */
+    private abortableRequest<T>(httpRequest: Promise<T>, signal?: AbortSignal): Promise<T> {
+        if (signal === undefined) {
+            return httpRequest;
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => reject(new Errors.RequestAbortedError('Request was aborted.'));
+
+            httpRequest.then(response => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(response);
+            }, error => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            });
+
+            if (signal.aborted) {
+                onAbort();
+            }
+            else {
+                signal.addEventListener('abort', onAbort);
+            }
+        });
     }
 
     /**
@@ -105,7 +355,7 @@ export default abstract class BaseClient {
      * @param httpRequest - HTTP request for which callback will be executed
      * @param callback - callback function to be executed.
      */
-    private processCallbackRequest<T>(httpRequest: Promise<T>, callback?: Callback<T>): void {
+    protected processCallbackRequest<T>(httpRequest: Promise<T>, callback?: Callback<T>): void {
         if (callback) {
             httpRequest
                 .then(response => {
@@ -116,65 +366,156 @@ export default abstract class BaseClient {
     }
 
     /**
-     * Process http request.
+     * Process http request through middleware chain, with the current token from credentials.
+     * Responses with status other than 200 are rejected.
      *
      * @param method - Which type of http request will be executed.
      * @param path - API URL endpoint.
      * @param queryParameters - Querystring parameters used for http request.
      * @param body - Data sent with http request.
+     * @param signal - Signal used to cancel the request.
+     *
+     * @returns A promise that will complete when the API responds.
      */
     private httpRequest(method: ClientOptions.HttpMethod, path: string, queryParameters: ({} | object),
-        body: (null | object), callback: any): void {
-        request(this.getHttpRequestURL(path), {
-            method: method.toString(),
-            headers: this.getComposedHttpRequestHeaders(),
-            qs: queryParameters,
-            body: body,
-            timeout: this.getRequestTimeoutInSeconds(),
-            json: true,
-            gzip: true
-        }, callback);
+        body: (null | object), signal?: AbortSignal): Promise<TransportResponse> {
+
+        return this.getToken().then(token => {
+            const request: MiddlewareRequest = {
+                method: method,
+                path: path,
+                queryParameters: queryParameters,
+                body: body,
+                headers: this.getComposedHttpRequestHeaders(token),
+                signal: signal
+            };
+
+            return this.processMiddleware(request);
+        }).then(response => {
+            if (response.statusCode !== 200) { throw response; }
+            return response;
+        });
     }
 
     /**
-     * Handle http request to return it as Promise.
+     * Pass request through middleware from client options, in the order they were added.
+     * Last middleware passes the request to the transport.
      *
-     * @param method - Which type of http request will be executed.
-     * @param path - API URL endpoint.
-     * @param queryParameters - Querystring parameters used for http request.
-     * @param body - Data sent with http request.
+     * @param request - request which will be passed to the first middleware.
+     *
+     * @returns A promise that will complete when the whole middleware chain completes.
+     */
+    private processMiddleware(request: MiddlewareRequest): Promise<TransportResponse> {
+        const middleware: Middleware[] = this.clientOptions.middleware || [];
+
+        const dispatch = (index: number, currentRequest: MiddlewareRequest): Promise<TransportResponse> => {
+            if (index >= middleware.length) {
+                return this.rateLimitedTransportRequest(currentRequest);
+            }
+
+            return Promise.resolve()
+                .then(() => middleware[index](currentRequest, nextRequest => dispatch(index + 1, nextRequest)));
+        };
+
+        return dispatch(0, request);
+    }
+
+    /**
+     * Execute request with configured transport, once rate limits from client options allow it.
+     *
+     * @param request - request to execute.
      *
      * @returns A promise that will complete when the API responds.
      */
-    private promisifiedHttpRequest(method: ClientOptions.HttpMethod, path: string, queryParameters: ({} | object),
-        body: (null | object)): Promise<request.Response> {
+    private rateLimitedTransportRequest(request: MiddlewareRequest): Promise<TransportResponse> {
+        if (this.clientOptions.rateLimit === undefined) {
+            return this.transportRequest(request);
+        }
 
-        return new Promise((resolve, reject) => {
-            this.httpRequest(method, path, queryParameters, body, (error: Error, response: request.Response) => {
-                if (error) { reject(error); }
-                else {
-                    if (response.statusCode !== 200) { reject(response); }
-                    else { resolve(response); }
-                }
-            });
+        return this.getRateLimiter(this.clientOptions.rateLimit, request.headers[this.authHeader])
+            .schedule(() => this.transportRequest(request), request.signal);
+    }
+
+    /**
+     * Get rate limiter for rate limit options. Limiter is shared with other clients using the same key in options,
+     * or with other clients using the same token when options have no key.
+     *
+     * @param options - rate limit options from client options.
+     * @param token - API token the request is sent with.
+     */
+    private getRateLimiter(options: RateLimitOptions, token: string): RateLimiter {
+        return (options.key !== undefined) ? RateLimiter.shared(options.key, options) : RateLimiter.forToken(token, options);
+    }
+
+    /**
+     * Execute request with configured transport, and log it when logging is configured in client options.
+     *
+     * @param request - request to execute.
+     *
+     * @returns A promise that will complete when the API responds.
+     */
+    private transportRequest(request: MiddlewareRequest): Promise<TransportResponse> {
+        if (request.signal !== undefined && request.signal.aborted) {
+            return Promise.reject(new Errors.RequestAbortedError('Request was aborted.'));
+        }
+
+        const transportRequest: TransportRequest = {
+            method: request.method,
+            url: this.getHttpRequestURL(request.path),
+            headers: request.headers,
+            queryParameters: request.queryParameters,
+            body: request.body,
+            timeout: this.getRequestTimeoutInSeconds(),
+            signal: request.signal,
+            connection: {
+                proxy: this.clientOptions.proxy,
+                ca: this.clientOptions.ca,
+                keepAlive: this.clientOptions.keepAlive,
+                agent: this.clientOptions.agent
+            }
+        };
+        const logger = new RequestLogger(this.clientOptions.logging);
+        const startedAt = Date.now();
+
+        logger.logRequest(transportRequest);
+        return this.getTransport().request(transportRequest).then(response => {
+            logger.logResponse(transportRequest, response, Date.now() - startedAt);
+            return response;
+        }, error => {
+            logger.logError(transportRequest, error, Date.now() - startedAt);
+            throw error;
         });
     }
 
+    private getTransport(): Transport {
+        return this.clientOptions.transport || this.defaultTransport;
+    }
+
     private getRequestTimeoutInSeconds(): number {
         return (this.clientOptions.timeout || 30) * 1000
     }
 
+    /**
+     * Join API endpoint path with base URL from client options, or with scheme and request host
+     * when base URL is not provided. Exactly one slash is kept between base URL and path.
+     *
+     * @param path - API URL endpoint.
+     */
     private getHttpRequestURL(path: string): string {
         const scheme = this.clientOptions.useHttps ? 'https' : 'http';
-        return `${scheme}://${this.clientOptions.requestHost}/${path}`;
+        const baseUrl = this.clientOptions.baseUrl || `${scheme}://${this.clientOptions.requestHost}`;
+
+        return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
     }
 
     /**
      * JSON object with default headers sent by HTTP request.
+     *
+     * @param token - API token sent in authentication header.
      **/
-    private getComposedHttpRequestHeaders(): object {
+    private getComposedHttpRequestHeaders(token: string): Hash<string> {
         return {
-            [this.authHeader]: this.token,
+            [this.authHeader]: token,
             'Accept': 'application/json',
             'User-Agent': `Postmark.JS - ${this.clientVersion}`
         }
@@ -191,6 +532,17 @@ export default abstract class BaseClient {
         }
     }
 
+    /**
+     * Base URL, when provided, must be an absolute http or https URL.
+     *
+     * @param configOptions - client options provided to the constructor.
+     */
+    private verifyBaseUrl(configOptions?: ClientOptions.Configuration): void {
+        if (configOptions && configOptions.baseUrl !== undefined && !/^https?:\/\/[^\/]+/i.test(configOptions.baseUrl)) {
+            throw new Errors.PostmarkError(`Base URL must be an absolute http or https URL, "${configOptions.baseUrl}" was provided.`);
+        }
+    }
+
     /**
      * Set default values for count and offset when doing filtering with API requests if they are not specified by filter.
      */
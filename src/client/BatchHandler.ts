@@ -0,0 +1,132 @@
+import { BatchOptions } from "./models";
+import * as Errors from "./models/client/Errors";
+
+/**
+ * Result of sending a single chunk of a batch. Chunk has responses when it was accepted, and error when it failed.
+ */
+export interface BatchChunkResult<T, R> {
+    messages: T[];
+    responses?: R[];
+    error?: Error;
+}
+
+/**
+ * This class splits large batches into chunks the API accepts, and sends chunks with bounded concurrency.
+ */
+export class BatchHandler {
+    public static DefaultOptions: BatchOptions = {
+        maxMessages: 500,
+        maxBytes: 50 * 1024 * 1024,
+        concurrency: 2
+    };
+
+    private readonly options: BatchOptions;
+
+    constructor(options: BatchOptions = {}) {
+        this.options = { ...BatchHandler.DefaultOptions, ...options };
+    }
+
+    /**
+     * Send messages in chunks, and collect the result of every chunk. Chunks in flight when a chunk fails are always completed.
+     *
+     * @param messages - Messages to send, there is no limit on the number of messages.
+     * @param sendChunk - Function sending a single chunk of messages, and returning a response for every message in the chunk.
+     * @param overhead - Number of bytes request body has in addition to the JSON array of messages.
+     * @param stopOnError - Don't send remaining chunks after a chunk fails. Remaining chunks have no responses and no error.
+     *
+     * @returns A promise that will complete with results of all chunks, in the same order as messages.
+     */
+    public sendChunks<T, R>(messages: T[], sendChunk: (chunk: T[]) => Promise<R[]>, overhead: number = 0,
+        stopOnError: boolean = true): Promise<Array<BatchChunkResult<T, R>>> {
+        const chunks: Array<BatchChunkResult<T, R>> = this.split(messages, overhead).map(chunk => ({ messages: chunk }));
+        let nextChunk = 0;
+        let failed = false;
+
+        const sendNext = (): Promise<void> => {
+            const index = nextChunk++;
+            if ((failed && stopOnError) || index >= chunks.length) {
+                return Promise.resolve();
+            }
+
+            return Promise.resolve()
+                .then(() => sendChunk(chunks[index].messages))
+                .then(responses => {
+                    chunks[index].responses = responses;
+                }, (error: Error) => {
+                    chunks[index].error = error;
+                    failed = true;
+                })
+                .then(sendNext);
+        };
+
+        const workers: Array<Promise<void>> = [];
+        for (let i = 0; i < Math.min(Math.max(1, <number>this.options.concurrency), chunks.length); i++) {
+            workers.push(sendNext());
+        }
+
+        return Promise.all(workers).then(() => chunks);
+    }
+
+    /**
+     * Join responses of all chunks.
+     *
+     * @param chunks - Results of sent chunks.
+     *
+     * @returns responses in the same order as messages.
+     * @throws error of the first failed chunk when no chunk was accepted, or [[BatchInterruptedError]] with responses
+     * of accepted chunks when other chunks were accepted.
+     */
+    public joinResponses<T, R>(chunks: Array<BatchChunkResult<T, R>>): R[] {
+        const failedChunk = chunks.find(chunk => chunk.error !== undefined);
+        const error = (failedChunk !== undefined) ? failedChunk.error : undefined;
+        const responses = chunks.reduce((result: Array<R | undefined>, chunk) =>
+            result.concat(chunk.responses || chunk.messages.map(() => undefined)), []);
+
+        if (error === undefined) {
+            return <R[]>responses;
+        }
+
+        if (!chunks.some(chunk => chunk.responses !== undefined)) {
+            throw error;
+        }
+
+        throw new Errors.BatchInterruptedError<R>((error instanceof Errors.PostmarkError) ? error : new Errors.PostmarkError(error.message),
+            responses);
+    }
+
+    /**
+     * Split messages into chunks, which don't exceed maximum number of messages and maximum request size.
+     * Message larger than maximum request size is sent in its own chunk.
+     *
+     * @param messages - Messages to split.
+     * @param overhead - Number of bytes request body has in addition to the JSON array of messages.
+     *
+     * @returns chunks of messages, in the same order as messages.
+     */
+    public split<T>(messages: T[], overhead: number = 0): T[][] {
+        const maxMessages = Math.max(1, <number>this.options.maxMessages);
+        const maxBytes = <number>this.options.maxBytes;
+        const chunks: T[][] = [];
+        let chunk: T[] = [];
+        let chunkBytes = 0;
+
+        messages.forEach(message => {
+            const messageBytes = Buffer.byteLength(JSON.stringify(message) || 'null') + 1;
+
+            if (chunk.length > 0 && (chunk.length >= maxMessages || overhead + 1 + chunkBytes + messageBytes > maxBytes)) {
+                chunks.push(chunk);
+                chunk = [];
+                chunkBytes = 0;
+            }
+
+            chunk.push(message);
+            chunkBytes += messageBytes;
+        });
+
+        if (chunk.length > 0) {
+            chunks.push(chunk);
+        }
+
+        return chunks;
+    }
+}
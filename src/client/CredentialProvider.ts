@@ -0,0 +1,76 @@
+import { TokenProvider } from "./models";
+import * as Errors from "./models/client/Errors";
+
+/**
+ * This class provides API token for requests, either a static token or a token returned by token provider.
+ * Tokens returned by token provider can be cached for a limited time.
+ */
+export class CredentialProvider {
+    private readonly token: (string | TokenProvider);
+    private cachedToken: (string | null) = null;
+    private cachedAt: number = 0;
+    private pendingToken: (Promise<string> | null) = null;
+
+    constructor(token: (string | TokenProvider)) {
+        this.token = (typeof token === 'string') ? token.trim() : token;
+    }
+
+    /**
+     * Tokens can be refreshed only when they are returned by token provider.
+     */
+    public get canRefresh(): boolean {
+        return typeof this.token === 'function';
+    }
+
+    /**
+     * Get token for a request.
+     *
+     * @param cacheTtl - Number of seconds token returned by token provider is reused. When not provided,
+     * token provider is called for every request.
+     *
+     * @returns A promise that will complete with the token.
+     */
+    public getToken(cacheTtl?: number): Promise<string> {
+        if (typeof this.token === 'string') {
+            return Promise.resolve(this.token);
+        }
+
+        if (this.cachedToken !== null && cacheTtl !== undefined && Date.now() - this.cachedAt < cacheTtl * 1000) {
+            return Promise.resolve(this.cachedToken);
+        }
+
+        return this.refresh();
+    }
+
+    /**
+     * Get new token from token provider, ignoring cached token. Concurrent calls share the same token provider call.
+     *
+     * @returns A promise that will complete with the new token.
+     */
+    public refresh(): Promise<string> {
+        const token = this.token;
+        if (typeof token === 'string') {
+            return Promise.resolve(token);
+        }
+
+        if (this.pendingToken === null) {
+            this.pendingToken = Promise.resolve()
+                .then(() => token())
+                .then(providedToken => {
+                    this.pendingToken = null;
+                    if (!providedToken || providedToken.trim() === '') {
+                        throw new Errors.PostmarkError('A valid API token must be returned by the token provider.');
+                    }
+
+                    this.cachedToken = providedToken.trim();
+                    this.cachedAt = Date.now();
+                    return this.cachedToken;
+                }, error => {
+                    this.pendingToken = null;
+                    throw error;
+                });
+        }
+
+        return this.pendingToken;
+    }
+}
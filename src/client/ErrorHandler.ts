@@ -1,4 +1,18 @@
 import * as Errors from "./models/client/Errors";
+import { ErrorCode } from "./models/client/ErrorCode";
+
+/**
+ * Describes the request which failed, so that details can be added to the generated error.
+ */
+export interface FailedRequest {
+    method?: string;
+    path?: string;
+
+    /**
+     * Number of attempts made before request failed.
+     */
+    attempts?: number;
+}
 
 /**
  * This class handles all client request errors. Client response error is classified so that proper response error is generated.
@@ -6,16 +20,51 @@ import * as Errors from "./models/client/Errors";
  **/
 export class ErrorHandler {
 
+    /**
+     * Network error codes which mean that API didn't respond in time.
+     */
+    private static TimeoutErrorCodes: string[] = ['ETIMEDOUT', 'ESOCKETTIMEDOUT'];
+
     /**
      * Process callback function for HTTP request.
      *
      * @param error - error that needs to be identified and transformed to proper Postmark error.
+     * @param request - details of the request which failed with the error.
      *
      * @returns properly formatted Postmark error.
      */
-    public generateError(error: any): Errors.PostmarkError {
-        if (error.statusCode !== undefined) {
-            return this.buildStatusError(error);
+    public generateError(error: any, request: FailedRequest = {}): Errors.PostmarkError {
+        const postmarkError: Errors.PostmarkError = this.buildPostmarkError(error);
+        const attempts = request.attempts || 1;
+
+        postmarkError.method = postmarkError.method || request.method;
+        postmarkError.path = postmarkError.path || request.path;
+        postmarkError.attempts = attempts;
+        if (attempts > 1) {
+            postmarkError.message = `${postmarkError.message} Request failed after ${attempts} attempts.`;
+        }
+
+        return postmarkError;
+    }
+
+    /**
+     * Identify the error and transform it to proper Postmark error.
+     *
+     * @param error - error that needs to be identified and transformed to proper Postmark error.
+     *
+     * @returns properly formatted Postmark error.
+     */
+    private buildPostmarkError(error: any): Errors.PostmarkError {
+        if (error instanceof Errors.PostmarkError) {
+            return error;
+        }
+        else if (error.statusCode !== undefined) {
+            const statusError = this.buildStatusError(error);
+            statusError.responseBody = error.body;
+            return statusError;
+        }
+        else if (error.name === 'AbortError' || error.code === 'ABORT_ERR') {
+            return new Errors.RequestAbortedError(error.message);
         }
         else {
             return this.buildError(error);
@@ -23,14 +72,22 @@ export class ErrorHandler {
     }
 
     /**
-     * Build general Postmark error.
+     * Build general Postmark error. Errors with system error code are transformed to network errors.
      *
      * @param error - error that needs to be identified and transformed to proper Postmark error.
      *
      * @returns properly formatted Postmark error.
      */
-    private buildError(error: Error): Errors.PostmarkError {
-        return new Errors.PostmarkError(error.message);
+    private buildError(error: any): Errors.PostmarkError {
+        if (typeof error.code !== 'string') {
+            return new Errors.PostmarkError(error.message);
+        }
+        else if (ErrorHandler.TimeoutErrorCodes.indexOf(error.code) !== -1) {
+            return new Errors.TimeoutError(error.message, error.code);
+        }
+        else {
+            return new Errors.NetworkError(error.message, error.code);
+        }
     }
 
     /**
@@ -41,21 +98,55 @@ export class ErrorHandler {
      * @returns properly formatted Postmark error.
      */
     private buildStatusError(error: any): Errors.HttpError {
+        const body: any = (error.body !== null && typeof error.body === 'object') ? error.body : {};
+        const message: string = body.Message || `Request failed with HTTP status ${error.statusCode}.`;
+        const code: number = body.ErrorCode || 0;
+
         switch (error.statusCode) {
             case 401:
-                return new Errors.InvalidAPIKeyError(error.body.Message, error.body.ErrorCode, error.statusCode);
+                return new Errors.InvalidAPIKeyError(message, code, error.statusCode);
+
+            case 404:
+                return new Errors.NotFoundError(message, code, error.statusCode);
+
+            case 413:
+                return new Errors.RequestTooLargeError(message, code, error.statusCode);
 
             case 422:
-                return new Errors.ApiInputError(error.body.Message, error.body.ErrorCode, error.statusCode);
+                return this.buildApiInputError(message, code, error.statusCode);
+
+            case 429:
+                return new Errors.RateLimitExceededError(message, code, error.statusCode);
 
             case 500:
-                return new Errors.InternalServerError(error.body.Message, error.body.ErrorCode, error.statusCode);
+                return new Errors.InternalServerError(message, code, error.statusCode);
 
             case 503:
-                return new Errors.ServiceUnavailablerError(error.body.Message, error.body.ErrorCode, error.statusCode);
+                return new Errors.ServiceUnavailablerError(message, code, error.statusCode);
+
+            default:
+                return new Errors.UnknownError(message, code, error.statusCode);
+        }
+    }
+
+    /**
+     * Build Postmark error for invalid API input, based on Postmark error code.
+     *
+     * @returns properly formatted Postmark error.
+     */
+    private buildApiInputError(message: string, code: number, statusCode: number): Errors.ApiInputError {
+        switch (code) {
+            case ErrorCode.InvalidEmailRequest:
+                return new Errors.InvalidEmailRequestError(message, code, statusCode);
+
+            case ErrorCode.InactiveRecipient:
+                return new Errors.InactiveRecipientError(message, code, statusCode);
+
+            case ErrorCode.TemplateNotFound:
+                return new Errors.TemplateNotFoundError(message, code, statusCode);
 
             default:
-                return new Errors.UnknownError(error.body.Message, error.body.ErrorCode, error.statusCode);
+                return new Errors.ApiInputError(message, code, statusCode);
         }
     }
 }
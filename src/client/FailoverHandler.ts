@@ -0,0 +1,67 @@
+import { FailoverPolicy } from "./models";
+import * as Errors from "./models/client/Errors";
+import { RetryHandler } from "./RetryHandler";
+
+/**
+ * This class decides when requests fail over from the API to a fallback, based on failover policy, and executes the fallback.
+ * By default, failover happens only when the API is unavailable and the request could not have been accepted.
+ * After a failover, requests go directly to the fallback until the cooldown passes.
+ */
+export class FailoverHandler {
+
+    /**
+     * Failover policy values used when they are not specified in client options.
+     */
+    public static DefaultPolicy: Required<FailoverPolicy> = {
+        failoverErrorCodes: RetryHandler.DefaultPolicy.connectionErrorCodes,
+        failoverOnNetworkError: false,
+        failoverStatusCodes: [503],
+        cooldown: 60000
+    };
+
+    private readonly policy: Required<FailoverPolicy>;
+    private failedOverAt: (number | null) = null;
+
+    constructor(policy?: FailoverPolicy) {
+        this.policy = { ...FailoverHandler.DefaultPolicy, ...policy };
+    }
+
+    /**
+     * Execute primary request, and fallback request when primary request fails with an error which triggers failover.
+     *
+     * @param primary - function executing the request with the API.
+     * @param fallback - function executing the same request with the fallback.
+     *
+     * @returns A promise that will complete with the result of the request which was executed last.
+     */
+    public execute<T>(primary: () => Promise<T>, fallback: () => Promise<T>): Promise<T> {
+        if (this.failedOverAt !== null && Date.now() - this.failedOverAt < this.policy.cooldown) {
+            return fallback();
+        }
+
+        return primary().then(result => {
+            this.failedOverAt = null;
+            return result;
+        }, error => {
+            if (!this.shouldFailover(error)) {
+                throw error;
+            }
+
+            this.failedOverAt = Date.now();
+            return fallback();
+        });
+    }
+
+    /**
+     * Check if failed request should be repeated with the fallback.
+     *
+     * @param error - error the request failed with.
+     */
+    public shouldFailover(error: any): boolean {
+        if (error instanceof Errors.NetworkError) {
+            return this.policy.failoverOnNetworkError || this.policy.failoverErrorCodes.indexOf(error.systemCode) !== -1;
+        }
+
+        return error instanceof Errors.HttpError && this.policy.failoverStatusCodes.indexOf(error.statusCode) !== -1;
+    }
+}
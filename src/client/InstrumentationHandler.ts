@@ -0,0 +1,122 @@
+import { AttributeValue, ClientOptions, InstrumentationOptions, Span } from "./models";
+import { Hash } from "./models/client/SupportingTypes";
+import * as Errors from "./models/client/Errors";
+
+/**
+ * Tracks a single client call, started with [[InstrumentationHandler.startCall]].
+ */
+export interface InstrumentedCall {
+    succeed(statusCode: number, attempts: number): void;
+    fail(error: Errors.PostmarkError): void;
+}
+
+/**
+ * This class reports client calls to tracer and metrics registry provided in client options.
+ * Errors thrown by the tracer or metrics registry are ignored, so that instrumentation never fails calls.
+ */
+export class InstrumentationHandler {
+    public static RequestsCounter: string = 'postmark.client.requests';
+    public static ErrorsCounter: string = 'postmark.client.errors';
+    public static DurationHistogram: string = 'postmark.client.duration';
+
+    /**
+     * Paths followed by an ID or alias of a resource, with segments which can follow the path instead of an alias.
+     */
+    private static AliasedResources: Hash<string[]> = {
+        '/templates': ['validate']
+    };
+
+    private readonly options: InstrumentationOptions;
+
+    constructor(options: InstrumentationOptions = {}) {
+        this.options = options;
+    }
+
+    /**
+     * Start tracking client call. Span is opened immediately, metrics are recorded when call completes.
+     *
+     * @param method - HTTP method of the call.
+     * @param path - API endpoint path of the call.
+     *
+     * @returns object which should be notified when the call completes.
+     */
+    public startCall(method: ClientOptions.HttpMethod, path: string): InstrumentedCall {
+        const route = this.getRoute(path);
+        const startedAt = Date.now();
+        const tracer = this.options.tracer;
+        const metrics = this.options.metrics;
+        let span: (Span | undefined);
+
+        if (tracer !== undefined) {
+            this.report(() => span = tracer.startSpan(`Postmark ${method} ${route}`, {
+                'http.method': method,
+                'http.route': route,
+                'postmark.path': path
+            }));
+        }
+
+        const complete = (attributes: Hash<AttributeValue>, labels: Hash<string>, error?: Errors.PostmarkError) => {
+            const callSpan = span;
+
+            if (callSpan !== undefined) {
+                this.report(() => callSpan.setAttributes(attributes));
+                if (error !== undefined) { this.report(() => callSpan.recordError(error)); }
+                this.report(() => callSpan.end());
+            }
+
+            if (metrics !== undefined) {
+                const metricLabels = { method: method, route: route, ...labels };
+
+                this.report(() => metrics.incrementCounter(InstrumentationHandler.RequestsCounter, metricLabels));
+                this.report(() => metrics.recordHistogram(InstrumentationHandler.DurationHistogram, Date.now() - startedAt, metricLabels));
+                if (error !== undefined) {
+                    this.report(() => metrics.incrementCounter(InstrumentationHandler.ErrorsCounter, { ...metricLabels, error: error.name }));
+                }
+            }
+        };
+
+        return {
+            succeed: (statusCode: number, attempts: number) => {
+                complete({
+                    'http.status_code': statusCode,
+                    'postmark.retry_count': attempts - 1
+                }, { status: statusCode.toString() });
+            },
+            fail: (error: Errors.PostmarkError) => {
+                complete({
+                    'http.status_code': error.statusCode,
+                    'postmark.error_code': error.code,
+                    'postmark.retry_count': error.attempts - 1
+                }, { status: error.statusCode.toString() }, error);
+            }
+        };
+    }
+
+    private report(call: () => void): void {
+        try {
+            call();
+        } catch (error) {
+            // instrumentation must not fail calls
+        }
+    }
+
+    /**
+     * Replace IDs and aliases in the path, so that routes can be used as low cardinality metric labels.
+     *
+     * @param path - API endpoint path.
+     *
+     * @returns path with numeric IDs, UUIDs and aliases replaced with :id.
+     */
+    private getRoute(path: string): string {
+        const segments = path.split('/');
+
+        return segments.map((segment, index) => {
+            const resource = segments.slice(0, index).join('/');
+            const isAlias = InstrumentationHandler.AliasedResources.hasOwnProperty(resource) &&
+                segment !== '' && InstrumentationHandler.AliasedResources[resource].indexOf(segment) === -1;
+
+            return isAlias || /^\d+$/.test(segment) ||
+                /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) ? ':id' : segment;
+        }).join('/');
+    }
+}
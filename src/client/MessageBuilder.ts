@@ -0,0 +1,218 @@
+import { Address, Addresses, Attachment, Header, LinkTrackingOptions, Message, TemplatedMessage } from "./models";
+import { Hash } from "./models/client/SupportingTypes";
+import { MessageValidator } from "./MessageValidator";
+import { AttachmentFactory } from "./AttachmentFactory";
+import { AddressList } from "./AddressList";
+
+/**
+ * Fields shared by [[MessageBuilder]] and [[TemplatedMessageBuilder]].
+ */
+export abstract class BaseMessageBuilder {
+    protected readonly fromAddress: Address;
+    protected toAddresses: Address[] = [];
+    protected ccAddresses: Address[] = [];
+    protected bccAddresses: Address[] = [];
+    protected replyToAddresses: Address[] = [];
+    protected messageTag?: string;
+    protected opensTracked?: boolean;
+    protected linksTracked?: LinkTrackingOptions;
+    protected headers: Header[] = [];
+    protected attachments: Attachment[] = [];
+
+    protected constructor(from: Address) {
+        this.fromAddress = from;
+    }
+
+    /**
+     * Add To recipients, as address strings or objects with email address and name.
+     * Can be called multiple times, recipients are added to previously added recipients.
+     */
+    public to(recipients: Addresses): this {
+        this.toAddresses = this.toAddresses.concat(recipients);
+        return this;
+    }
+
+    public cc(recipients: Addresses): this {
+        this.ccAddresses = this.ccAddresses.concat(recipients);
+        return this;
+    }
+
+    public bcc(recipients: Addresses): this {
+        this.bccAddresses = this.bccAddresses.concat(recipients);
+        return this;
+    }
+
+    public replyTo(addresses: Addresses): this {
+        this.replyToAddresses = this.replyToAddresses.concat(addresses);
+        return this;
+    }
+
+    public tag(tag: string): this {
+        this.messageTag = tag;
+        return this;
+    }
+
+    public trackOpens(trackOpens: boolean = true): this {
+        this.opensTracked = trackOpens;
+        return this;
+    }
+
+    public trackLinks(trackLinks: LinkTrackingOptions): this {
+        this.linksTracked = trackLinks;
+        return this;
+    }
+
+    public header(name: string, value: string): this {
+        this.headers.push(new Header(name, value));
+        return this;
+    }
+
+    /**
+     * Add attachment, either an attachment object or attachment name, base64 encoded content and content type.
+     */
+    public attach(attachment: (Attachment | string), content?: string, contentType?: string, contentId?: string): this {
+        this.attachments.push(typeof attachment === 'string' ?
+            new Attachment(attachment, <string>content, <string>contentType, contentId) : attachment);
+        return this;
+    }
+
+    /**
+     * Format addresses the way the API expects them, or leave field out when there are no addresses.
+     */
+    protected joinAddresses(addresses: Address[]): (string | undefined) {
+        return addresses.length > 0 ? AddressList.format(addresses) : undefined;
+    }
+
+    protected optionalList<T>(items: T[]): (T[] | undefined) {
+        return items.length > 0 ? items.slice() : undefined;
+    }
+}
+
+/**
+ * Builds [[Message]] step by step, instead of passing all fields to the constructor.
+ *
+ * @example
+ * const message = MessageBuilder.from('sender@example.com')
+ *     .to(['john@example.com', 'jane@example.com'])
+ *     .subject('Hello')
+ *     .htmlBody('<p>Hello</p>')
+ *     .metadata('customer-id', '123')
+ *     .build();
+ */
+export class MessageBuilder extends BaseMessageBuilder {
+    private messageSubject?: string;
+    private html?: string;
+    private text?: string;
+    private metadataFields: Hash<string> = {};
+
+    /**
+     * Start building a message sent from provided address.
+     */
+    public static from(from: Address): MessageBuilder {
+        return new MessageBuilder(from);
+    }
+
+    protected constructor(from: Address) {
+        super(from);
+    }
+
+    public subject(subject: string): this {
+        this.messageSubject = subject;
+        return this;
+    }
+
+    public htmlBody(htmlBody: string): this {
+        this.html = htmlBody;
+        return this;
+    }
+
+    public textBody(textBody: string): this {
+        this.text = textBody;
+        return this;
+    }
+
+    /**
+     * Add metadata, either a single key and value, or multiple fields at once.
+     */
+    public metadata(key: (string | Hash<string>), value?: string): this {
+        this.metadataFields = (typeof key === 'string') ?
+            { ...this.metadataFields, [key]: <string>value } : { ...this.metadataFields, ...key };
+        return this;
+    }
+
+    /**
+     * Build and validate the message. Images in HTML body referencing inline attachments by name are changed to cid: URLs.
+     *
+     * @throws [[MessageValidationError]] when message is invalid.
+     */
+    public build(): Message {
+        const html = (this.html !== undefined) ? AttachmentFactory.embedInlineImages(this.html, this.attachments) : undefined;
+        const message = new Message(this.fromAddress, <string>this.messageSubject, html, this.text,
+            this.joinAddresses(this.toAddresses), this.joinAddresses(this.ccAddresses), this.joinAddresses(this.bccAddresses),
+            this.joinAddresses(this.replyToAddresses), this.messageTag, this.opensTracked, this.linksTracked,
+            this.optionalList(this.headers), this.optionalList(this.attachments),
+            Object.keys(this.metadataFields).length > 0 ? { ...this.metadataFields } : undefined);
+
+        new MessageValidator().assertValid([message], false, false);
+        return message;
+    }
+}
+
+/**
+ * Builds [[TemplatedMessage]] step by step, instead of passing all fields to the constructor.
+ *
+ * @example
+ * const message = TemplatedMessageBuilder.from('sender@example.com')
+ *     .template('welcome', { name: 'John' })
+ *     .to('john@example.com')
+ *     .build();
+ */
+export class TemplatedMessageBuilder extends BaseMessageBuilder {
+    private templateIdOrAlias?: (number | string);
+    private model: object = {};
+    private cssInlined?: boolean;
+
+    /**
+     * Start building a templated message sent from provided address.
+     */
+    public static from(from: Address): TemplatedMessageBuilder {
+        return new TemplatedMessageBuilder(from);
+    }
+
+    protected constructor(from: Address) {
+        super(from);
+    }
+
+    /**
+     * Set template used to render the message, by template ID or alias, and model used to render it.
+     */
+    public template(templateIdOrAlias: (number | string), templateModel: object = {}): this {
+        this.templateIdOrAlias = templateIdOrAlias;
+        this.model = templateModel;
+        return this;
+    }
+
+    public inlineCss(inlineCss: boolean = true): this {
+        this.cssInlined = inlineCss;
+        return this;
+    }
+
+    /**
+     * Build and validate the message.
+     *
+     * @throws [[MessageValidationError]] when message is invalid.
+     */
+    public build(): TemplatedMessage {
+        const message = new TemplatedMessage(this.fromAddress, <(number | string)>this.templateIdOrAlias, this.model,
+            this.joinAddresses(this.toAddresses), this.joinAddresses(this.ccAddresses), this.joinAddresses(this.bccAddresses),
+            this.joinAddresses(this.replyToAddresses), this.messageTag, this.opensTracked, this.linksTracked,
+            this.optionalList(this.headers), this.optionalList(this.attachments));
+
+        if (this.cssInlined !== undefined) {
+            message.InlineCss = this.cssInlined;
+        }
+
+        new MessageValidator().assertValid([message], true, false);
+        return message;
+    }
+}
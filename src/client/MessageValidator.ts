@@ -0,0 +1,189 @@
+import { ErrorCode, FieldError, Message, TemplatedMessage } from "./models";
+import { Hash } from "./models/client/SupportingTypes";
+import * as Errors from "./models/client/Errors";
+import { AddressList } from "./AddressList";
+
+/**
+ * This class validates messages before they are sent, using the same limits the API uses.
+ * All problems are reported at once, each pointing at the invalid field.
+ */
+export class MessageValidator {
+    public static MaxRecipients: number = 50;
+    public static MaxMessageBytes: number = 10 * 1024 * 1024;
+    public static MaxMetadataFields: number = 10;
+    public static MaxMetadataKeyLength: number = 20;
+    public static MaxMetadataValueLength: number = 80;
+
+    /**
+     * Attachment extensions rejected by the API.
+     */
+    public static ForbiddenExtensions: string[] = ['vbs', 'exe', 'bin', 'bat', 'chm', 'com', 'cpl', 'crt', 'hlp', 'hta',
+        'inf', 'ins', 'isp', 'jse', 'lnk', 'mdb', 'pcd', 'pif', 'reg', 'scr', 'sct', 'shs', 'vbe', 'vba', 'wsf', 'wsh',
+        'wsl', 'msc', 'msi', 'msp', 'mst'];
+
+    /**
+     * Headers which are set from message fields, and can't be provided as custom headers.
+     */
+    public static ReservedHeaders: string[] = ['from', 'to', 'cc', 'bcc', 'subject', 'reply-to', 'sender', 'return-path',
+        'date', 'received', 'mime-version', 'content-type', 'content-transfer-encoding', 'dkim-signature'];
+
+    /**
+     * Validate message sent with sendEmail or sendEmailBatch.
+     *
+     * @param message - Message to validate.
+     *
+     * @returns problems found in the message, empty when message is valid.
+     */
+    public validateMessage(message: Message): FieldError[] {
+        const errors: FieldError[] = this.validateCommonFields(message);
+
+        if (this.isEmpty(message.Subject)) {
+            errors.push({ field: 'Subject', message: 'Subject is required.' });
+        }
+
+        if (this.isEmpty(message.HtmlBody) && this.isEmpty(message.TextBody)) {
+            errors.push({ field: 'HtmlBody', message: 'Either HtmlBody or TextBody is required.' });
+        }
+
+        this.validateMetadata(message.Metadata, errors);
+        this.validateSize(message, errors);
+        return errors;
+    }
+
+    /**
+     * Validate message sent with sendEmailWithTemplate or sendEmailBatchWithTemplates.
+     *
+     * @param message - Message to validate.
+     *
+     * @returns problems found in the message, empty when message is valid.
+     */
+    public validateTemplatedMessage(message: TemplatedMessage): FieldError[] {
+        const errors: FieldError[] = this.validateCommonFields(message);
+        const hasTemplateId = message.TemplateId !== undefined && message.TemplateId !== null;
+        const hasTemplateAlias = !this.isEmpty(message.TemplateAlias);
+
+        if (hasTemplateId === hasTemplateAlias) {
+            errors.push({
+                field: hasTemplateId ? 'TemplateAlias' : 'TemplateId',
+                message: 'Exactly one of TemplateId and TemplateAlias must be provided.'
+            });
+        }
+
+        this.validateSize(message, errors);
+        return errors;
+    }
+
+    /**
+     * Validate messages and throw when any of them is invalid.
+     *
+     * @param messages - Messages to validate.
+     * @param templated - Whether messages are sent with templates.
+     * @param batch - Whether messages are sent as a batch. Fields of messages in a batch are prefixed with message position.
+     *
+     * @throws [[MessageValidationError]] describing all problems found in messages.
+     */
+    public assertValid(messages: Array<(Message | TemplatedMessage)>, templated: boolean, batch: boolean): void {
+        const errors: FieldError[] = [];
+
+        messages.forEach((message, index) => {
+            const messageErrors = templated ?
+                this.validateTemplatedMessage(<TemplatedMessage>message) : this.validateMessage(<Message>message);
+
+            messageErrors.forEach(error => errors.push(batch ? { field: `[${index}].${error.field}`, message: error.message } : error));
+        });
+
+        if (errors.length > 0) {
+            const details = errors.map(error => `${error.field}: ${error.message}`).join(' ');
+            throw new Errors.MessageValidationError(`Message is invalid. ${details}`, ErrorCode.InvalidEmailRequest, errors);
+        }
+    }
+
+    private validateCommonFields(message: (Message | TemplatedMessage)): FieldError[] {
+        const errors: FieldError[] = [];
+
+        if (AddressList.parse(message.From).length === 0) {
+            errors.push({ field: 'From', message: 'From address is required.' });
+        }
+
+        AddressList.MessageFields.forEach(field => {
+            AddressList.parse(message[field])
+                .filter(address => !AddressList.isValid(address.Email))
+                .forEach(address => errors.push({ field: field, message: `Invalid address '${address.Email}'.` }));
+        });
+
+        const recipients = AddressList.parse(message.To).length + AddressList.parse(message.Cc).length +
+            AddressList.parse(message.Bcc).length;
+        if (recipients === 0) {
+            errors.push({ field: 'To', message: 'At least one To, Cc or Bcc recipient is required.' });
+        }
+        else if (recipients > MessageValidator.MaxRecipients) {
+            errors.push({ field: 'To', message: `Maximum of ${MessageValidator.MaxRecipients} To, Cc and Bcc recipients is allowed, ${recipients} were provided.` });
+        }
+
+        (message.Headers || []).forEach((header, index) => {
+            if (this.isEmpty(header.Name)) {
+                errors.push({ field: `Headers[${index}].Name`, message: 'Header name is required.' });
+            }
+            else if (MessageValidator.ReservedHeaders.indexOf(header.Name.trim().toLowerCase()) !== -1) {
+                errors.push({ field: `Headers[${index}].Name`, message: `Header '${header.Name}' is reserved, use message field instead.` });
+            }
+        });
+
+        (message.Attachments || []).forEach((attachment, index) => {
+            const extension = (/\.([^.]+)$/.exec(attachment.Name || '') || [])[1];
+
+            if (this.isEmpty(attachment.Name)) {
+                errors.push({ field: `Attachments[${index}].Name`, message: 'Attachment name is required.' });
+            }
+            else if (extension !== undefined && MessageValidator.ForbiddenExtensions.indexOf(extension.toLowerCase()) !== -1) {
+                errors.push({ field: `Attachments[${index}].Name`, message: `Attachments with extension '${extension}' are not allowed.` });
+            }
+
+            if (this.isEmpty(attachment.Content)) {
+                errors.push({ field: `Attachments[${index}].Content`, message: 'Attachment content is required.' });
+            }
+
+            if (this.isEmpty(attachment.ContentType)) {
+                errors.push({ field: `Attachments[${index}].ContentType`, message: 'Attachment content type is required.' });
+            }
+        });
+
+        return errors;
+    }
+
+    private validateMetadata(metadata: (Hash<string> | undefined), errors: FieldError[]): void {
+        const values: Hash<string> = metadata || {};
+        const fields = Object.keys(values);
+
+        if (fields.length > MessageValidator.MaxMetadataFields) {
+            errors.push({ field: 'Metadata', message: `Maximum of ${MessageValidator.MaxMetadataFields} metadata fields is allowed.` });
+        }
+
+        fields.forEach(key => {
+            const value = values[key];
+
+            if (key.length > MessageValidator.MaxMetadataKeyLength) {
+                errors.push({ field: `Metadata.${key}`, message: `Metadata key can have up to ${MessageValidator.MaxMetadataKeyLength} characters.` });
+            }
+
+            if (typeof value !== 'string') {
+                errors.push({ field: `Metadata.${key}`, message: 'Metadata value must be a string.' });
+            }
+            else if (value.length > MessageValidator.MaxMetadataValueLength) {
+                errors.push({ field: `Metadata.${key}`, message: `Metadata value can have up to ${MessageValidator.MaxMetadataValueLength} characters.` });
+            }
+        });
+    }
+
+    private validateSize(message: (Message | TemplatedMessage), errors: FieldError[]): void {
+        const size = Buffer.byteLength(JSON.stringify(message));
+
+        if (size > MessageValidator.MaxMessageBytes) {
+            errors.push({ field: 'Attachments', message: `Message size is ${size} bytes, maximum of ${MessageValidator.MaxMessageBytes} bytes is allowed.` });
+        }
+    }
+
+    private isEmpty(value: any): boolean {
+        return value === undefined || value === null || String(value).trim() === '';
+    }
+}
@@ -0,0 +1,247 @@
+import * as crypto from 'crypto';
+
+import { Addresses, Attachment, Message, MimeOptions } from "./models";
+import { AddressList } from "./AddressList";
+
+/**
+ * Part of MIME document, headers followed by encoded body.
+ */
+interface MimePart {
+    headers: string[];
+    body: string;
+}
+
+/**
+ * This class converts messages to RFC 5322 MIME documents, in the same format message dumps returned by the API use.
+ * Text and HTML bodies are combined in multipart/alternative, inline attachments in multipart/related and
+ * other attachments in multipart/mixed part. Headers with non-ASCII characters are encoded as RFC 2047 encoded words.
+ */
+export class MimeGenerator {
+    public static MaxLineLength: number = 76;
+    public static MaxHeaderLineLength: number = 78;
+
+    private readonly options: MimeOptions;
+
+    constructor(options: MimeOptions = {}) {
+        this.options = options;
+    }
+
+    /**
+     * Generate MIME document from message.
+     *
+     * @param message - Message to convert.
+     *
+     * @returns MIME document with CRLF line endings.
+     */
+    public generate(message: Message): string {
+        const from = AddressList.parse(message.From)[0];
+        const domain = (from !== undefined && from.Email.indexOf('@') !== -1) ? AddressList.toASCII(from.Email).split('@').pop() : 'localhost';
+        const headers: string[] = [this.header('From', this.encodeAddresses(message.From))];
+
+        this.addAddressHeader(headers, 'To', message.To);
+        this.addAddressHeader(headers, 'Cc', message.Cc);
+        if (this.options.includeBcc) {
+            this.addAddressHeader(headers, 'Bcc', message.Bcc);
+        }
+        this.addAddressHeader(headers, 'Reply-To', message.ReplyTo);
+
+        headers.push(
+            this.header('Subject', this.encodeHeaderValue(message.Subject || '')),
+            this.header('Date', this.formatDate(this.options.date || new Date())),
+            this.header('Message-ID', this.options.messageId || `<${crypto.randomBytes(16).toString('hex')}@${domain}>`),
+            this.header('MIME-Version', '1.0'));
+
+        (message.Headers || []).forEach(header => headers.push(this.header(header.Name, this.encodeHeaderValue(header.Value))));
+        if (this.options.postmarkHeaders) {
+            this.addPostmarkHeaders(headers, message);
+        }
+
+        const content = this.contentPart(message);
+        return this.formatPart({ headers: [...headers, ...content.headers], body: content.body });
+    }
+
+    /**
+     * Add message fields which have no standard header as X-PM-* headers.
+     */
+    private addPostmarkHeaders(headers: string[], message: Message): void {
+        if (message.Tag) {
+            headers.push(this.header('X-PM-Tag', this.encodeHeaderValue(message.Tag)));
+        }
+
+        const metadata = message.Metadata || {};
+        Object.keys(metadata).forEach(key =>
+            headers.push(this.header(`X-PM-Metadata-${key}`, this.encodeHeaderValue(metadata[key]))));
+
+        if (message.TrackOpens !== undefined && message.TrackOpens !== null) {
+            headers.push(this.header('X-PM-TrackOpens', String(message.TrackOpens)));
+        }
+
+        if (message.TrackLinks) {
+            headers.push(this.header('X-PM-TrackLinks', message.TrackLinks));
+        }
+    }
+
+    private contentPart(message: Message): MimePart {
+        const bodies: MimePart[] = [];
+        const attachments = message.Attachments || [];
+        const inlineAttachments = attachments.filter(attachment => attachment.ContentID);
+        const regularAttachments = attachments.filter(attachment => !attachment.ContentID);
+
+        if (message.TextBody || !message.HtmlBody) {
+            bodies.push(this.textPart('text/plain', message.TextBody || ''));
+        }
+
+        if (message.HtmlBody) {
+            bodies.push(this.textPart('text/html', message.HtmlBody));
+        }
+
+        let content = (bodies.length > 1) ? this.multipart('alternative', bodies) : bodies[0];
+
+        if (inlineAttachments.length > 0) {
+            content = this.multipart('related', [content, ...inlineAttachments.map(attachment => this.attachmentPart(attachment))]);
+        }
+
+        if (regularAttachments.length > 0) {
+            content = this.multipart('mixed', [content, ...regularAttachments.map(attachment => this.attachmentPart(attachment))]);
+        }
+
+        return content;
+    }
+
+    private textPart(contentType: string, text: string): MimePart {
+        return {
+            headers: [`Content-Type: ${contentType}; charset=utf-8`, 'Content-Transfer-Encoding: quoted-printable'],
+            body: this.encodeQuotedPrintable(text)
+        };
+    }
+
+    private attachmentPart(attachment: Attachment): MimePart {
+        const headers = [
+            `Content-Type: ${attachment.ContentType || 'application/octet-stream'}; ${this.parameter('name', attachment.Name)}`,
+            'Content-Transfer-Encoding: base64',
+            `Content-Disposition: ${attachment.ContentID ? 'inline' : 'attachment'}; ${this.parameter('filename', attachment.Name)}`
+        ];
+
+        if (attachment.ContentID) {
+            headers.push(`Content-ID: <${attachment.ContentID.replace(/^cid:/i, '').replace(/^<|>$/g, '')}>`);
+        }
+
+        const content = (attachment.Content || '').replace(/\s+/g, '');
+        return { headers: headers, body: (content.match(new RegExp(`.{1,${MimeGenerator.MaxLineLength}}`, 'g')) || []).join('\r\n') };
+    }
+
+    private multipart(subtype: string, parts: MimePart[]): MimePart {
+        const boundary = `=_${crypto.randomBytes(12).toString('hex')}`;
+
+        return {
+            headers: [`Content-Type: multipart/${subtype}; boundary="${boundary}"`],
+            body: parts.map(part => `--${boundary}\r\n${this.formatPart(part)}\r\n`).join('') + `--${boundary}--`
+        };
+    }
+
+    private formatPart(part: MimePart): string {
+        return `${part.headers.join('\r\n')}\r\n\r\n${part.body}`;
+    }
+
+    private addAddressHeader(headers: string[], name: string, addresses?: Addresses): void {
+        if (AddressList.parse(addresses).length > 0) {
+            headers.push(this.header(name, this.encodeAddresses(addresses)));
+        }
+    }
+
+    /**
+     * Format header, folding it at whitespace into lines of recommended length.
+     */
+    private header(name: string, value: string): string {
+        const words = `${name}: ${value.replace(/[\r\n]+/g, ' ')}`.split(' ');
+        const lines: string[] = [];
+        let line = <string>words.shift();
+
+        words.forEach(word => {
+            if (line.length + word.length + 1 > MimeGenerator.MaxHeaderLineLength) {
+                lines.push(line);
+                line = ` ${word}`;
+            }
+            else {
+                line += ` ${word}`;
+            }
+        });
+
+        return lines.concat(line).join('\r\n');
+    }
+
+    /**
+     * Format addresses, encoding display names with non-ASCII characters. Domains are converted to punycode.
+     */
+    private encodeAddresses(addresses?: Addresses): string {
+        return AddressList.parse(addresses).map(address => this.isASCII(address.Name) ? AddressList.formatAddress(address) :
+            `${this.encodeHeaderValue(address.Name)} <${AddressList.toASCII(address.Email)}>`).join(', ');
+    }
+
+    /**
+     * Encode header value with non-ASCII characters as RFC 2047 encoded words, each encoding up to 45 bytes.
+     */
+    private encodeHeaderValue(value: string): string {
+        if (this.isASCII(value)) {
+            return value;
+        }
+
+        const words: string[] = [];
+        let word = '';
+
+        for (const character of Array.from(value)) {
+            if (Buffer.byteLength(word + character) > 45) {
+                words.push(word);
+                word = '';
+            }
+            word += character;
+        }
+
+        return words.concat(word).map(text => `=?UTF-8?B?${Buffer.from(text).toString('base64')}?=`).join(' ');
+    }
+
+    /**
+     * Format header parameter, using RFC 2231 encoding for values with non-ASCII characters.
+     */
+    private parameter(name: string, value: string): string {
+        return this.isASCII(value) ? `${name}="${value.replace(/(["\\])/g, '\\$1')}"` :
+            `${name}*=UTF-8''${encodeURIComponent(value).replace(/['()*!]/g, character => '%' + character.charCodeAt(0).toString(16).toUpperCase())}`;
+    }
+
+    /**
+     * Encode text as quoted-printable, with CRLF line endings and soft line breaks keeping lines within 76 characters.
+     */
+    private encodeQuotedPrintable(text: string): string {
+        return text.split(/\r\n|\r|\n/).map(line => {
+            const bytes = Buffer.from(line, 'utf8');
+            const lines: string[] = [];
+            let encodedLine = '';
+
+            for (let index = 0; index < bytes.length; index++) {
+                const byte = bytes[index];
+                const isLast = (index === bytes.length - 1);
+                const encoded = ((byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast)) ?
+                    String.fromCharCode(byte) : `=${(byte < 16 ? '0' : '') + byte.toString(16).toUpperCase()}`;
+
+                if (encodedLine.length + encoded.length > MimeGenerator.MaxLineLength - 1) {
+                    lines.push(`${encodedLine}=`);
+                    encodedLine = '';
+                }
+                encodedLine += encoded;
+            }
+
+            return lines.concat(encodedLine).join('\r\n');
+        }).join('\r\n');
+    }
+
+    /**
+     * Format date as RFC 5322 date, for example Mon, 19 Oct 2026 10:00:00 +0000.
+     */
+    private formatDate(date: Date): string {
+        return date.toUTCString().replace(/GMT$/, '+0000');
+    }
+
+    private isASCII(value: string): boolean {
+        return /^[\x20-\x7E]*$/.test(value);
+    }
+}
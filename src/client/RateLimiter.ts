@@ -0,0 +1,186 @@
+import * as crypto from 'crypto';
+
+import { RateLimitOptions } from "./models";
+import { Hash } from "./models/client/SupportingTypes";
+import * as Errors from "./models/client/Errors";
+
+interface QueuedTask {
+    start: () => void;
+}
+
+/**
+ * Limits rate of requests with token bucket algorithm, and number of requests in flight.
+ * Requests over the limits are queued and started in the order they were scheduled.
+ */
+export class RateLimiter {
+    private static sharedLimiters: Hash<RateLimiter> = {};
+
+    /**
+     * Get rate limiter shared by all clients using the same API token. Token is hashed, so that it doesn't appear in errors.
+     *
+     * @param token - API token used by client.
+     * @param options - rate limit options used when limiter is created, all clients sharing the limiter must use the same limits.
+     *
+     * @throws PostmarkError when limiter for the same token already uses different limits.
+     */
+    public static forToken(token: string, options: RateLimitOptions): RateLimiter {
+        return RateLimiter.shared(`token:${crypto.createHash('sha256').update(token).digest('hex').substr(0, 16)}`, options);
+    }
+
+    /**
+     * Get rate limiter shared by all clients using the same key in rate limit options.
+     *
+     * @param key - key identifying the shared limiter.
+     * @param options - rate limit options used when limiter is created, all clients sharing the limiter must use the same limits.
+     *
+     * @throws PostmarkError when limiter with the same key already uses different limits.
+     */
+    public static shared(key: string, options: RateLimitOptions): RateLimiter {
+        const limiter = RateLimiter.sharedLimiters[key];
+        if (limiter === undefined) {
+            return RateLimiter.sharedLimiters[key] = new RateLimiter(options);
+        }
+
+        if (!limiter.hasLimits(options)) {
+            throw new Errors.PostmarkError(`Rate limiter '${key}' is already used with different limits.`);
+        }
+
+        return limiter;
+    }
+
+    private readonly options: RateLimitOptions;
+    private readonly capacity: number;
+    private readonly queue: QueuedTask[] = [];
+    private tokens: number;
+    private lastRefill: number;
+    private inFlight: number = 0;
+    private refillTimer: (NodeJS.Timer | null) = null;
+
+    constructor(options: RateLimitOptions) {
+        this.options = options;
+        this.capacity = Math.max(1, options.burst || options.requestsPerSecond || 1);
+        this.tokens = this.capacity;
+        this.lastRefill = Date.now();
+    }
+
+    /**
+     * Number of requests which are waiting to be started.
+     */
+    public get pendingCount(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * Number of requests currently in flight.
+     */
+    public get activeCount(): number {
+        return this.inFlight;
+    }
+
+    /**
+     * Schedule task to be executed once rate limit and concurrency limit allow it.
+     *
+     * @param task - function starting the request.
+     * @param signal - Signal used to cancel the request, task is removed from the queue when it is aborted before it starts.
+     *
+     * @returns A promise that will complete with the result of the task.
+     */
+    public schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            if (signal !== undefined && signal.aborted) {
+                reject(new Errors.RequestAbortedError('Request was aborted.'));
+                return;
+            }
+
+            const onAbort = () => {
+                const index = this.queue.indexOf(queuedTask);
+                if (index !== -1) {
+                    this.queue.splice(index, 1);
+                    reject(new Errors.RequestAbortedError('Request was aborted.'));
+                }
+            };
+            const queuedTask: QueuedTask = {
+                start: () => {
+                    if (signal !== undefined) {
+                        signal.removeEventListener('abort', onAbort);
+                    }
+
+                    this.inFlight++;
+                    const finish = () => {
+                        this.inFlight--;
+                        this.processQueue();
+                    };
+
+                    task().then(result => {
+                        finish();
+                        resolve(result);
+                    }, error => {
+                        finish();
+                        reject(error);
+                    });
+                }
+            };
+
+            if (signal !== undefined) {
+                signal.addEventListener('abort', onAbort);
+            }
+
+            this.queue.push(queuedTask);
+            this.processQueue();
+        });
+    }
+
+    private hasLimits(options: RateLimitOptions): boolean {
+        return this.options.requestsPerSecond === options.requestsPerSecond && this.options.burst === options.burst &&
+            this.options.maxConcurrent === options.maxConcurrent;
+    }
+
+    private processQueue(): void {
+        while (this.queue.length > 0 && this.hasFreeSlot()) {
+            if (!this.takeToken()) {
+                this.scheduleRefill();
+                return;
+            }
+
+            (<QueuedTask>this.queue.shift()).start();
+        }
+    }
+
+    private hasFreeSlot(): boolean {
+        return this.options.maxConcurrent === undefined || this.inFlight < this.options.maxConcurrent;
+    }
+
+    private takeToken(): boolean {
+        if (!this.options.requestsPerSecond) {
+            return true;
+        }
+
+        this.refill();
+        if (this.tokens >= 1) {
+            this.tokens--;
+            return true;
+        }
+
+        return false;
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        const refilled = (now - this.lastRefill) / 1000 * (this.options.requestsPerSecond || 0);
+
+        this.tokens = Math.min(this.capacity, this.tokens + refilled);
+        this.lastRefill = now;
+    }
+
+    private scheduleRefill(): void {
+        if (this.refillTimer !== null) {
+            return;
+        }
+
+        const delay = Math.ceil((1 - this.tokens) / (this.options.requestsPerSecond || 1) * 1000);
+        this.refillTimer = setTimeout(() => {
+            this.refillTimer = null;
+            this.processQueue();
+        }, delay);
+    }
+}
@@ -0,0 +1,201 @@
+import { ClientOptions, LogEvent, LoggingOptions, LogLevel, TransportRequest, TransportResponse } from "./models";
+import { Hash } from "./models/client/SupportingTypes";
+import * as Errors from "./models/client/Errors";
+
+/**
+ * This class emits structured log events for requests executed by the client.
+ * API tokens and attachment content are redacted from requests and responses before events are emitted.
+ * Errors thrown by the logger are ignored, so that logging never fails requests.
+ */
+export class RequestLogger {
+
+    /**
+     * Headers whose values are never logged.
+     */
+    public static RedactedHeaders: string[] = [
+        ClientOptions.DefaultHeaderNames.SERVER_TOKEN,
+        ClientOptions.DefaultHeaderNames.ACCOUNT_TOKEN
+    ];
+
+    public static RedactedValue: string = '[REDACTED]';
+
+    /**
+     * Response fields which contain API tokens, and are redacted even when tokens were not sent with the request.
+     */
+    private static TokenFields: string[] = ['ApiTokens'];
+
+    private readonly options?: LoggingOptions;
+
+    constructor(options?: LoggingOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Log start of the request.
+     *
+     * @param request - request sent to the transport.
+     */
+    public logRequest(request: TransportRequest): void {
+        if (!this.isEnabled(LogLevel.Debug)) { return; }
+
+        this.log(LogLevel.Debug, `Postmark API request ${request.method} ${request.url}`, this.buildRequestEvent(request));
+    }
+
+    /**
+     * Log response returned by the API. Responses with status other than 200 are logged as warnings.
+     *
+     * @param request - request sent to the transport.
+     * @param response - response returned by the transport.
+     * @param durationMs - time it took to receive the response.
+     */
+    public logResponse(request: TransportRequest, response: TransportResponse, durationMs: number): void {
+        const level = (response.statusCode === 200) ? LogLevel.Info : LogLevel.Warn;
+        if (!this.isEnabled(level)) { return; }
+
+        this.log(level, `Postmark API response ${response.statusCode} for ${request.method} ${request.url}`, {
+            ...this.buildRequestEvent(request),
+            event: 'response',
+            statusCode: response.statusCode,
+            responseBody: this.serializeBody(this.redactBody(response.body, this.getTokens(request))),
+            durationMs: durationMs
+        });
+    }
+
+    /**
+     * Log request which failed before API responded.
+     *
+     * @param request - request sent to the transport.
+     * @param error - error returned by the transport.
+     * @param durationMs - time until the request failed.
+     */
+    public logError(request: TransportRequest, error: any, durationMs: number): void {
+        if (!this.isEnabled(LogLevel.Error)) { return; }
+
+        this.log(LogLevel.Error, `Postmark API request ${request.method} ${request.url} failed: ${error.message}`, {
+            ...this.buildRequestEvent(request),
+            event: 'error',
+            durationMs: durationMs,
+            error: {
+                name: error.name,
+                message: error.message,
+                code: (error instanceof Errors.NetworkError) ? error.systemCode : error.code
+            }
+        });
+    }
+
+    private buildRequestEvent(request: TransportRequest): LogEvent {
+        return {
+            event: 'request',
+            method: request.method,
+            url: request.url,
+            queryParameters: request.queryParameters,
+            headers: this.redactHeaders(request.headers),
+            body: this.serializeBody(this.redactBody(request.body, this.getTokens(request)))
+        };
+    }
+
+    private isEnabled(level: LogLevel): boolean {
+        if (this.options === undefined) {
+            return false;
+        }
+
+        const configuredLevel = (this.options.level !== undefined) ? this.options.level : LogLevel.Info;
+        return level >= configuredLevel && configuredLevel !== LogLevel.Silent;
+    }
+
+    private log(level: LogLevel, message: string, event: LogEvent): void {
+        try {
+            this.writeLog(level, message, event);
+        } catch (error) {
+            // logging must not fail requests
+        }
+    }
+
+    private writeLog(level: LogLevel, message: string, event: LogEvent): void {
+        if (this.options === undefined) { return; }
+        const logger = this.options.logger;
+
+        switch (level) {
+            case LogLevel.Debug:
+                return logger.debug(message, event);
+
+            case LogLevel.Info:
+                return logger.info(message, event);
+
+            case LogLevel.Warn:
+                return logger.warn(message, event);
+
+            default:
+                return logger.error(message, event);
+        }
+    }
+
+    private redactHeaders(headers: Hash<string>): Hash<string> {
+        const redactedNames = RequestLogger.RedactedHeaders.map(name => name.toLowerCase());
+        const result: Hash<string> = {};
+
+        Object.keys(headers).forEach(name => {
+            result[name] = (redactedNames.indexOf(name.toLowerCase()) !== -1) ? RequestLogger.RedactedValue : headers[name];
+        });
+
+        return result;
+    }
+
+    /**
+     * API tokens sent with the request, which must not be logged.
+     */
+    private getTokens(request: TransportRequest): string[] {
+        const redactedNames = RequestLogger.RedactedHeaders.map(name => name.toLowerCase());
+
+        return Object.keys(request.headers)
+            .filter(name => redactedNames.indexOf(name.toLowerCase()) !== -1)
+            .map(name => request.headers[name])
+            .filter(token => token !== undefined && token !== '');
+    }
+
+    /**
+     * Replace API tokens and attachment content anywhere in the body, which covers single messages, arrays of messages,
+     * batches of templated messages and responses listing server tokens.
+     */
+    private redactBody(body: any, tokens: string[]): any {
+        if (typeof body === 'string') {
+            return tokens.reduce((result, token) => result.split(token).join(RequestLogger.RedactedValue), body);
+        }
+        else if (Array.isArray(body)) {
+            return body.map(item => this.redactBody(item, tokens));
+        }
+        else if (body === null || typeof body !== 'object') {
+            return body;
+        }
+
+        const result: any = {};
+        Object.keys(body).forEach(key => {
+            if (key === 'Attachments' && Array.isArray(body[key])) {
+                result[key] = body[key].map((attachment: any) => {
+                    return (attachment && attachment.Content !== undefined) ?
+                        { ...attachment, Content: RequestLogger.RedactedValue } : attachment;
+                });
+            }
+            else if (RequestLogger.TokenFields.indexOf(key) !== -1 && Array.isArray(body[key])) {
+                result[key] = body[key].map(() => RequestLogger.RedactedValue);
+            }
+            else {
+                result[key] = this.redactBody(body[key], tokens);
+            }
+        });
+
+        return result;
+    }
+
+    private serializeBody(body: any): (string | undefined) {
+        if (body === null || body === undefined) {
+            return undefined;
+        }
+
+        const serialized = (typeof body === 'string') ? body : JSON.stringify(body);
+        const maxLength = (this.options && this.options.maxBodyLength !== undefined) ? this.options.maxBodyLength : 1000;
+
+        return (serialized.length > maxLength) ?
+            `${serialized.substring(0, maxLength)}... (${serialized.length - maxLength} more characters)` : serialized;
+    }
+}
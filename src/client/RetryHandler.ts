@@ -0,0 +1,163 @@
+import { ClientOptions, RetryPolicy, TransportResponse } from "./models";
+import * as Errors from "./models/client/Errors";
+
+/**
+ * Error of a failed attempt: Postmark error, HTTP response with an error status, or network error returned by the transport.
+ */
+export type AttemptError = (Errors.PostmarkError | TransportResponse | NodeJS.ErrnoException);
+
+/**
+ * This class decides if failed requests should be retried, based on retry policy, and executes the retries.
+ * By default, only idempotent GET requests are retried, plus requests which failed before reaching the server.
+ */
+export class RetryHandler {
+
+    /**
+     * Retry policy values used when they are not specified in client options.
+     */
+    public static DefaultPolicy: Required<RetryPolicy> = {
+        maxAttempts: 3,
+        initialDelay: 200,
+        maxDelay: 5000,
+        jitter: true,
+        retryableMethods: [ClientOptions.HttpMethod.GET],
+        retryableStatusCodes: [429, 500, 502, 503, 504],
+        retryableErrorCodes: ['ECONNRESET', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'EPIPE'],
+        connectionErrorCodes: ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH']
+    };
+
+    private readonly policy: Required<RetryPolicy>;
+
+    constructor(policy?: RetryPolicy) {
+        this.policy = { ...RetryHandler.DefaultPolicy, ...policy };
+    }
+
+    /**
+     * Execute request, and retry it while it fails with retryable error and there are attempts left.
+     *
+     * @param method - HTTP method of the request, used to decide if request is safe to retry.
+     * @param request - function executing a single attempt of the request.
+     * @param signal - Signal used to cancel the request, no more attempts are made once it is aborted.
+     *
+     * @returns A promise that will complete when the request succeeds, or with the error of the last attempt.
+     */
+    public execute<T>(method: ClientOptions.HttpMethod, request: (attempt: number) => Promise<T>, signal?: AbortSignal): Promise<T> {
+        const attempt = (attemptNumber: number): Promise<T> => {
+            return request(attemptNumber).catch((error: AttemptError) => {
+                if (!this.shouldRetry(method, error, attemptNumber)) {
+                    throw error;
+                }
+
+                return this.wait(this.getDelay(attemptNumber, error), signal).then(() => attempt(attemptNumber + 1));
+            });
+        };
+
+        return attempt(1);
+    }
+
+    /**
+     * Check if failed attempt should be retried.
+     *
+     * @param method - HTTP method of the request.
+     * @param error - network error or HTTP response with an error status.
+     * @param attemptNumber - number of the attempt that failed, starting with 1.
+     */
+    public shouldRetry(method: ClientOptions.HttpMethod, error: AttemptError, attemptNumber: number): boolean {
+        if (attemptNumber >= this.policy.maxAttempts || error === null || error === undefined) {
+            return false;
+        }
+
+        const statusCode = this.getStatusCode(error);
+        const systemCode = this.getSystemCode(error);
+
+        if (systemCode !== undefined && this.policy.connectionErrorCodes.indexOf(systemCode) !== -1) {
+            return true;
+        }
+
+        if (this.policy.retryableMethods.indexOf(method) === -1) {
+            return false;
+        }
+
+        if (statusCode !== undefined) {
+            return this.policy.retryableStatusCodes.indexOf(statusCode) !== -1;
+        }
+
+        return systemCode !== undefined && this.policy.retryableErrorCodes.indexOf(systemCode) !== -1;
+    }
+
+    /**
+     * Calculate delay before next attempt, using exponential backoff.
+     * When server responds with Retry-After header, it is respected, up to the maximum delay.
+     *
+     * @param attemptNumber - number of the attempt that failed, starting with 1.
+     * @param error - network error or HTTP response with an error status.
+     *
+     * @returns delay in milliseconds.
+     */
+    public getDelay(attemptNumber: number, error?: AttemptError): number {
+        const retryAfter = this.getRetryAfterDelay(error);
+        if (retryAfter !== null) {
+            return Math.min(retryAfter, this.policy.maxDelay);
+        }
+
+        const delay = Math.min(this.policy.initialDelay * Math.pow(2, attemptNumber - 1), this.policy.maxDelay);
+        return this.policy.jitter ? Math.round(Math.random() * delay) : delay;
+    }
+
+    /**
+     * Get HTTP status of the response, errors without response have no status.
+     */
+    private getStatusCode(error: AttemptError): (number | undefined) {
+        if (error instanceof Errors.PostmarkError) {
+            return (error instanceof Errors.HttpError) ? error.statusCode : undefined;
+        }
+
+        return ('statusCode' in error) ? error.statusCode : undefined;
+    }
+
+    /**
+     * Get system error code, for example ECONNRESET, of errors which happened before API responded.
+     */
+    private getSystemCode(error: AttemptError): (string | undefined) {
+        if (error instanceof Errors.PostmarkError) {
+            return (error instanceof Errors.NetworkError) ? error.systemCode : undefined;
+        }
+
+        return ('statusCode' in error) ? undefined : error.code;
+    }
+
+    private getRetryAfterDelay(error?: AttemptError): (number | null) {
+        const retryAfter = (error !== undefined && 'headers' in error) ? error.headers['retry-after'] : undefined;
+        const seconds = parseInt(<string>retryAfter, 10);
+
+        return isNaN(seconds) ? null : seconds * 1000;
+    }
+
+    /**
+     * Wait before next attempt. Waiting is cancelled, and the request rejected, as soon as signal is aborted.
+     */
+    private wait(delay: number, signal?: AbortSignal): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            if (signal === undefined) {
+                setTimeout(resolve, delay);
+                return;
+            }
+
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new Errors.RequestAbortedError('Request was aborted.'));
+            };
+            const timer = setTimeout(() => {
+                signal.removeEventListener('abort', onAbort);
+                resolve();
+            }, delay);
+
+            if (signal.aborted) {
+                onAbort();
+            }
+            else {
+                signal.addEventListener('abort', onAbort);
+            }
+        });
+    }
+}
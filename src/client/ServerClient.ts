@@ -1,15 +1,24 @@
 import BaseClient from './BaseClient';
+import { MessageValidator } from './MessageValidator';
+import { AddressList } from './AddressList';
+import { FailoverHandler } from './FailoverHandler';
+import { SmtpTransport } from './transport/SmtpTransport';
+import * as Errors from './models/client/Errors';
 
 import {
     ClientOptions,
     Callback,
     DefaultResponse,
     FilteringParameters,
+    RequestOptions,
+    SmtpFallbackOptions,
+    TokenProvider,
 } from './models/index';
 
 import {
     Message,
     MessageSendingResponse,
+    BatchResult,
 
     Bounce,
     Bounces,
@@ -72,36 +81,68 @@ import {
  * Server client class that can be used to interact with an individual Postmark Server.
  */
 export default class ServerClient extends BaseClient {
+    private smtpTransport?: SmtpTransport;
+    private failoverHandler?: FailoverHandler;
+    private smtpFallbackOptions?: SmtpFallbackOptions;
 
     /**
      * Create a client.
      *
-     * @param serverToken - The token for the server that you wish to interact with.
+     * @param serverToken - The token for the server that you wish to interact with, or a token provider returning it.
      * @param configOptions - Options to customize the behavior of the this client.
      */
-    constructor(serverToken: string, configOptions?: ClientOptions.Configuration) {
+    constructor(serverToken: (string | TokenProvider), configOptions?: ClientOptions.Configuration) {
         super(serverToken, ClientOptions.DefaultHeaderNames.SERVER_TOKEN, configOptions);
     }
 
-    /** Send a single email message.
+    /** Send a single email message. When SMTP fallback is configured in client options, message is sent over SMTP
+     * when the API is unavailable.
      *
      * @param email - Email message to send.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    sendEmail(email: Message, callback?: Callback<MessageSendingResponse>): Promise<MessageSendingResponse> {
-        return this.processRequestWithBody<MessageSendingResponse>(ClientOptions.HttpMethod.POST, '/email', email, callback);
+    sendEmail(email: Message, callback?: Callback<MessageSendingResponse>, requestOptions?: RequestOptions): Promise<MessageSendingResponse> {
+        return this.processMessageRequest([email], false, false, callback, () => {
+            if (this.clientOptions.smtpFallback === undefined) {
+                return this.processRequestWithBody<MessageSendingResponse>(ClientOptions.HttpMethod.POST, '/email', this.formatAddresses(email),
+                    callback, requestOptions);
+            }
+
+            const request = this.sendEmailWithSmtpFallback(email, this.clientOptions.smtpFallback, requestOptions);
+            this.processCallbackRequest(request, callback);
+            return request;
+        });
     }
 
     /**
-     * Send a batch of email messages.
+     * Send a batch of email messages. Batches larger than the API allows are split into multiple requests.
      *
      * @param emails - An array of messages to send.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
-     * @returns A promise that will complete when the API responds (or an error occurs).
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
+     * @returns A promise that will complete with responses in the same order as messages, when the API responds (or an error occurs).
+     */
+    sendEmailBatch(emails: Message[], callback?: Callback<MessageSendingResponse[]>, requestOptions?: RequestOptions): Promise<MessageSendingResponse[]> {
+        return this.processMessageRequest(emails, false, true, callback, () =>
+            this.processBatchRequest('/email/batch', emails,
+                chunk => chunk.map(email => this.formatAddresses(email)), callback, requestOptions));
+    };
+
+    /**
+     * Send a batch of email messages, and pair every message with its response.
+     * Batches larger than the API allows are split into multiple requests.
+     *
+     * @param emails - An array of messages to send.
+     * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
+     * @returns A promise that will complete with succeeded and failed messages, when the API responds (or an error occurs).
      */
-    sendEmailBatch(emails: Message[], callback?: Callback<MessageSendingResponse[]>): Promise<MessageSendingResponse[]> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/email/batch', emails, callback);
+    sendEmailBatchWithResult(emails: Message[], callback?: Callback<BatchResult<Message>>, requestOptions?: RequestOptions): Promise<BatchResult<Message>> {
+        return this.processMessageRequest(emails, false, true, callback, () =>
+            this.processBatchRequestWithResult('/email/batch', emails,
+                chunk => chunk.map(email => this.formatAddresses(email)), callback, requestOptions));
     };
 
     /**
@@ -109,31 +150,53 @@ export default class ServerClient extends BaseClient {
      *
      * @param template - Message you wish to send.
      * @param callback If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    sendEmailWithTemplate(template: TemplatedMessage, callback?: Callback<MessageSendingResponse>): Promise<MessageSendingResponse> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/email/withTemplate', template, callback);
+    sendEmailWithTemplate(template: TemplatedMessage, callback?: Callback<MessageSendingResponse>, requestOptions?: RequestOptions): Promise<MessageSendingResponse> {
+        return this.processMessageRequest([template], true, false, callback, () =>
+            this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/email/withTemplate', this.formatAddresses(template), callback, requestOptions));
     };
 
     /**
-     * Send a batch of template email messages.
+     * Send a batch of template email messages. Batches larger than the API allows are split into multiple requests.
      *
      * @param templates - An array of templated messages you wish to send using this Client.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
-     * @returns A promise that will complete when the API responds (or an error occurs).
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
+     * @returns A promise that will complete with responses in the same order as messages, when the API responds (or an error occurs).
      */
-    sendEmailBatchWithTemplates(templates: TemplatedMessage[], callback?: Callback<MessageSendingResponse[]>): Promise<MessageSendingResponse[]> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/email/batchWithTemplates', { Messages: templates }, callback);
+    sendEmailBatchWithTemplates(templates: TemplatedMessage[], callback?: Callback<MessageSendingResponse[]>, requestOptions?: RequestOptions): Promise<MessageSendingResponse[]> {
+        return this.processMessageRequest(templates, true, true, callback, () =>
+            this.processBatchRequest('/email/batchWithTemplates', templates,
+                chunk => ({ Messages: chunk.map(template => this.formatAddresses(template)) }), callback, requestOptions));
+    };
+
+    /**
+     * Send a batch of template email messages, and pair every message with its response.
+     * Batches larger than the API allows are split into multiple requests.
+     *
+     * @param templates - An array of templated messages you wish to send using this Client.
+     * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
+     * @returns A promise that will complete with succeeded and failed messages, when the API responds (or an error occurs).
+     */
+    sendEmailBatchWithTemplatesWithResult(templates: TemplatedMessage[], callback?: Callback<BatchResult<TemplatedMessage>>,
+        requestOptions?: RequestOptions): Promise<BatchResult<TemplatedMessage>> {
+        return this.processMessageRequest(templates, true, true, callback, () =>
+            this.processBatchRequestWithResult('/email/batchWithTemplates', templates,
+                chunk => ({ Messages: chunk.map(template => this.formatAddresses(template)) }), callback, requestOptions));
     };
 
     /**
      * Get bounce statistic information for the associated Server.
      *
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getDeliveryStatistics(callback?: Callback<DeliveryStatistics>): Promise<DeliveryStatistics> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/deliveryStats', {}, callback);
+    getDeliveryStatistics(callback?: Callback<DeliveryStatistics>, requestOptions?: RequestOptions): Promise<DeliveryStatistics> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/deliveryStats', {}, callback, requestOptions);
     };
 
     /**
@@ -141,11 +204,12 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getBounces(filter: BounceFilteringParameters = new BounceFilteringParameters(), callback?: Callback<Bounces>): Promise<Bounces> {
+    getBounces(filter: BounceFilteringParameters = new BounceFilteringParameters(), callback?: Callback<Bounces>, requestOptions?: RequestOptions): Promise<Bounces> {
         this.setDefaultPaginationValues(filter);
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/bounces', filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/bounces', filter, callback, requestOptions);
     };
 
     /**
@@ -153,10 +217,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param id - The ID of the Bounce you wish to retrieve.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getBounce(id: number, callback?: Callback<Bounce>): Promise<Bounce> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/bounces/${id}`, {}, callback);
+    getBounce(id: number, callback?: Callback<Bounce>, requestOptions?: RequestOptions): Promise<Bounce> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/bounces/${id}`, {}, callback, requestOptions);
     };
 
     /**
@@ -164,10 +229,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param id - The ID of the Bounce for which you wish to retrieve Bounce Dump.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getBounceDump(id: number, callback?: Callback<BounceDump>): Promise<BounceDump> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/bounces/${id}/dump`, {}, callback);
+    getBounceDump(id: number, callback?: Callback<BounceDump>, requestOptions?: RequestOptions): Promise<BounceDump> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/bounces/${id}/dump`, {}, callback, requestOptions);
     };
 
     /**
@@ -175,20 +241,22 @@ export default class ServerClient extends BaseClient {
      *
      * @param id - The ID of the Bounce for which you wish to activate the associated email.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    activateBounce(id: number, callback?: Callback<BounceActivationResponse>): Promise<BounceActivationResponse> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, `/bounces/${id}/activate`, {}, callback);
+    activateBounce(id: number, callback?: Callback<BounceActivationResponse>, requestOptions?: RequestOptions): Promise<BounceActivationResponse> {
+        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, `/bounces/${id}/activate`, {}, callback, requestOptions);
     };
 
     /**
      * Get an array of tags associated with bounces.
      *
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getBounceTags(callback?: Callback<string[]>): Promise<string[]> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/bounces/tags', {}, callback);
+    getBounceTags(callback?: Callback<string[]>, requestOptions?: RequestOptions): Promise<string[]> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/bounces/tags', {}, callback, requestOptions);
     };
 
     /**
@@ -196,11 +264,12 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering options.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getTemplates(filter: FilteringParameters = new FilteringParameters(), callback?: Callback<Templates>): Promise<Templates> {
+    getTemplates(filter: FilteringParameters = new FilteringParameters(), callback?: Callback<Templates>, requestOptions?: RequestOptions): Promise<Templates> {
         this.setDefaultPaginationValues(filter);
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/templates', filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/templates', filter, callback, requestOptions);
     };
 
     /**
@@ -208,10 +277,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param idOrAlias - ID or alias for the template you wish to retrieve.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getTemplate(idOrAlias: (number | string), callback?: Callback<Template>): Promise<Template> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/templates/${idOrAlias}`, {}, callback);
+    getTemplate(idOrAlias: (number | string), callback?: Callback<Template>, requestOptions?: RequestOptions): Promise<Template> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/templates/${idOrAlias}`, {}, callback, requestOptions);
     };
 
     /**
@@ -219,10 +289,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param idOrAlias - ID or template alias you wish to delete.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    deleteTemplate(idOrAlias: (number | string), callback?: Callback<DefaultResponse>): Promise<DefaultResponse> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.DELETE, `/templates/${idOrAlias}`, {}, callback);
+    deleteTemplate(idOrAlias: (number | string), callback?: Callback<DefaultResponse>, requestOptions?: RequestOptions): Promise<DefaultResponse> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.DELETE, `/templates/${idOrAlias}`, {}, callback, requestOptions);
     }
 
     /**
@@ -230,10 +301,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param options - Configuration options to be used to create the Template.
      * @param callback If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    createTemplate(options: CreateTemplateRequest, callback?: Callback<Template>): Promise<Template> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/templates/', options, callback);
+    createTemplate(options: CreateTemplateRequest, callback?: Callback<Template>, requestOptions?: RequestOptions): Promise<Template> {
+        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/templates/', options, callback, requestOptions);
     }
 
     /**
@@ -242,10 +314,11 @@ export default class ServerClient extends BaseClient {
      * @param idOrAlias - Id or alias of the template you wish to update.
      * @param options - Template options you wish to update.
      * @param callback If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    editTemplate(idOrAlias: (number | string), options: UpdateTemplateRequest, callback?: Callback<Template>): Promise<Template> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, `/templates/${idOrAlias}`, options, callback);
+    editTemplate(idOrAlias: (number | string), options: UpdateTemplateRequest, callback?: Callback<Template>, requestOptions?: RequestOptions): Promise<Template> {
+        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, `/templates/${idOrAlias}`, options, callback, requestOptions);
     }
 
     /**
@@ -254,21 +327,23 @@ export default class ServerClient extends BaseClient {
      *
      * @param options - The template content you wish to validate.
      * @param callback If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    validateTemplate(options: TemplateValidationOptions, callback?: Callback<TemplateValidation>):
+    validateTemplate(options: TemplateValidationOptions, callback?: Callback<TemplateValidation>, requestOptions?: RequestOptions):
         Promise<TemplateValidation> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/templates/validate', options, callback);
+        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/templates/validate', options, callback, requestOptions);
     }
 
     /**
      * Get the information for the Server associated with this Client.
      *
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getServer(callback?: Callback<Server>): Promise<Server> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/server', {}, callback);
+    getServer(callback?: Callback<Server>, requestOptions?: RequestOptions): Promise<Server> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/server', {}, callback, requestOptions);
     };
 
     /**
@@ -276,10 +351,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param options - The options you wish to modify.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    editServer(options: UpdateServerRequest, callback?: Callback<Server>): Promise<Server> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, '/server', options, callback);
+    editServer(options: UpdateServerRequest, callback?: Callback<Server>, requestOptions?: RequestOptions): Promise<Server> {
+        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, '/server', options, callback, requestOptions);
     };
 
     /**
@@ -287,12 +363,13 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
     getOutboundMessages(filter: OutboundMessagesFilteringParameters = new OutboundMessagesFilteringParameters(),
-        callback?: Callback<OutboundMessages>): Promise<OutboundMessages> {
+        callback?: Callback<OutboundMessages>, requestOptions?: RequestOptions): Promise<OutboundMessages> {
         this.setDefaultPaginationValues(filter);
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/messages/outbound', filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/messages/outbound', filter, callback, requestOptions);
     };
 
     /**
@@ -300,11 +377,12 @@ export default class ServerClient extends BaseClient {
      *
      * @param messageId - The ID of the OutboundMessage you wish to retrieve.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
     getOutboundMessageDetails(messageId: string,
-        callback?: Callback<OutboundMessageDetails>): Promise<OutboundMessageDetails> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/messages/outbound/${messageId}`, {}, callback);
+        callback?: Callback<OutboundMessageDetails>, requestOptions?: RequestOptions): Promise<OutboundMessageDetails> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/messages/outbound/${messageId}`, {}, callback, requestOptions);
     };
 
     /**
@@ -312,11 +390,12 @@ export default class ServerClient extends BaseClient {
      *
      * @param messageId - The ID of the OutboundMessage you wish to retrieve.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
     getOutboundMessageDump(messageId: string,
-        callback?: Callback<OutboundMessageDump>): Promise<OutboundMessageDump> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/messages/outbound/${messageId}/dump`, {}, callback);
+        callback?: Callback<OutboundMessageDump>, requestOptions?: RequestOptions): Promise<OutboundMessageDump> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/messages/outbound/${messageId}/dump`, {}, callback, requestOptions);
     };
 
     /**
@@ -324,11 +403,12 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getInboundMessages(filter: InboundMessagesFilteringParameters = new InboundMessagesFilteringParameters(), callback?: Callback<InboundMessages>): Promise<InboundMessages> {
+    getInboundMessages(filter: InboundMessagesFilteringParameters = new InboundMessagesFilteringParameters(), callback?: Callback<InboundMessages>, requestOptions?: RequestOptions): Promise<InboundMessages> {
         this.setDefaultPaginationValues(filter);
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/messages/inbound', filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/messages/inbound', filter, callback, requestOptions);
     };
 
     /**
@@ -336,10 +416,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param messageId - The ID of the Inbound Message you wish to retrieve.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getInboundMessageDetails(messageId: string, callback?: Callback<InboundMessageDetails>): Promise<InboundMessageDetails> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/messages/inbound/${messageId}/details`, {}, callback);
+    getInboundMessageDetails(messageId: string, callback?: Callback<InboundMessageDetails>, requestOptions?: RequestOptions): Promise<InboundMessageDetails> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/messages/inbound/${messageId}/details`, {}, callback, requestOptions);
     };
 
     /**
@@ -347,10 +428,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param messageId - The ID of the Inbound Message for which you wish to bypass the filtering rules.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    bypassBlockedInboundMessage(messageId: string, callback?: Callback<DefaultResponse>): Promise<DefaultResponse> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.PUT, `/messages/inbound/${messageId}/bypass`, {}, callback);
+    bypassBlockedInboundMessage(messageId: string, callback?: Callback<DefaultResponse>, requestOptions?: RequestOptions): Promise<DefaultResponse> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.PUT, `/messages/inbound/${messageId}/bypass`, {}, callback, requestOptions);
     };
 
     /**
@@ -358,10 +440,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param messageId - The ID of the Inbound Message for which you wish to retry the inbound hook.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    retryInboundHookForMessage(messageId: string, callback?: Callback<DefaultResponse>): Promise<DefaultResponse> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.PUT, `/messages/inbound/${messageId}/retry`, {}, callback);
+    retryInboundHookForMessage(messageId: string, callback?: Callback<DefaultResponse>, requestOptions?: RequestOptions): Promise<DefaultResponse> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.PUT, `/messages/inbound/${messageId}/retry`, {}, callback, requestOptions);
     };
 
     /**
@@ -369,12 +452,13 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
     getMessageOpens(filter: OutboundMessageOpensFilteringParameters = new OutboundMessageOpensFilteringParameters(),
-        callback?: Callback<OutboundMessageOpens>): Promise<OutboundMessageOpens> {
+        callback?: Callback<OutboundMessageOpens>, requestOptions?: RequestOptions): Promise<OutboundMessageOpens> {
         this.setDefaultPaginationValues(filter);
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/messages/outbound/opens', filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/messages/outbound/opens', filter, callback, requestOptions);
     };
 
     /**
@@ -382,12 +466,13 @@ export default class ServerClient extends BaseClient {
      *
      * @param messageId - Message ID of the message for which you wish to retrieve Opens.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
     getMessageOpensForSingleMessage(messageId: string, filter: OutboundMessageOpensFilteringParameters = new OutboundMessageOpensFilteringParameters(50, 0),
-        callback?: Callback<OutboundMessageOpens>): Promise<OutboundMessageOpens> {
+        callback?: Callback<OutboundMessageOpens>, requestOptions?: RequestOptions): Promise<OutboundMessageOpens> {
         this.setDefaultPaginationValues(filter);
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/messages/outbound/opens/${messageId}`, filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/messages/outbound/opens/${messageId}`, filter, callback, requestOptions);
     };
 
     /**
@@ -395,11 +480,12 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getMessageClicks(filter: OutboundMessageClicksFilteringParameters = new OutboundMessageClicksFilteringParameters(), callback?: Callback<OutboundMessageClicks>): Promise<OutboundMessageClicks> {
+    getMessageClicks(filter: OutboundMessageClicksFilteringParameters = new OutboundMessageClicksFilteringParameters(), callback?: Callback<OutboundMessageClicks>, requestOptions?: RequestOptions): Promise<OutboundMessageClicks> {
         this.setDefaultPaginationValues(filter);
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/messages/outbound/clicks', filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/messages/outbound/clicks', filter, callback, requestOptions);
     };
 
     /**
@@ -408,13 +494,14 @@ export default class ServerClient extends BaseClient {
      * @param messageId - The MessageID for which clicks should be retrieved.
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
     getMessageClicksForSingleMessage(messageId: string,
         filter: OutboundMessageClicksFilteringParameters = new OutboundMessageClicksFilteringParameters(),
-        callback?: Callback<OutboundMessageClicks>): Promise<OutboundMessageClicks> {
+        callback?: Callback<OutboundMessageClicks>, requestOptions?: RequestOptions): Promise<OutboundMessageClicks> {
         this.setDefaultPaginationValues(filter);
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/messages/outbound/clicks/${messageId}`, filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/messages/outbound/clicks/${messageId}`, filter, callback, requestOptions);
     };
 
     /**
@@ -422,11 +509,12 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getOutboundOverview(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<OutboundStatistics>):
+    getOutboundOverview(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<OutboundStatistics>, requestOptions?: RequestOptions):
         Promise<OutboundStatistics> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound', filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound', filter, callback, requestOptions);
     };
 
     /**
@@ -434,10 +522,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getSentCounts(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<SentCounts>): Promise<SentCounts> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/sends', filter, callback);
+    getSentCounts(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<SentCounts>, requestOptions?: RequestOptions): Promise<SentCounts> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/sends', filter, callback, requestOptions);
     };
 
     /**
@@ -445,10 +534,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getBounceCounts(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<BounceCounts>): Promise<BounceCounts> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/bounces', filter, callback);
+    getBounceCounts(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<BounceCounts>, requestOptions?: RequestOptions): Promise<BounceCounts> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/bounces', filter, callback, requestOptions);
     };
 
     /**
@@ -456,10 +546,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getSpamComplaintsCounts(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<SpamCounts>): Promise<SpamCounts> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/spam', filter, callback);
+    getSpamComplaintsCounts(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<SpamCounts>, requestOptions?: RequestOptions): Promise<SpamCounts> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/spam', filter, callback, requestOptions);
     };
 
     /**
@@ -467,10 +558,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getTrackedEmailCounts(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<TrackedEmailCounts>): Promise<TrackedEmailCounts> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/tracked', filter, callback);
+    getTrackedEmailCounts(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<TrackedEmailCounts>, requestOptions?: RequestOptions): Promise<TrackedEmailCounts> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/tracked', filter, callback, requestOptions);
     };
 
     /**
@@ -478,11 +570,12 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
     getEmailOpenCounts(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(),
-        callback?: Callback<OpenCounts>): Promise<OpenCounts> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/opens', filter, callback);
+        callback?: Callback<OpenCounts>, requestOptions?: RequestOptions): Promise<OpenCounts> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/opens', filter, callback, requestOptions);
     };
 
     /**
@@ -490,10 +583,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getEmailOpenPlatformUsage(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<EmailPlaformUsageCounts>): Promise<EmailPlaformUsageCounts> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/opens/platforms', filter, callback);
+    getEmailOpenPlatformUsage(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<EmailPlaformUsageCounts>, requestOptions?: RequestOptions): Promise<EmailPlaformUsageCounts> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/opens/platforms', filter, callback, requestOptions);
     };
 
     /**
@@ -501,21 +595,23 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getEmailOpenClientUsage(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<EmailClientUsageCounts>): Promise<EmailClientUsageCounts> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/opens/emailClients', filter, callback);
+    getEmailOpenClientUsage(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<EmailClientUsageCounts>, requestOptions?: RequestOptions): Promise<EmailClientUsageCounts> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/opens/emailClients', filter, callback, requestOptions);
     };
 
     /**
      * Get Read Time statistics for messages sent from the Server associated with this Client.
      * @param filter Optional filtering parameters.
      * @param callback If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
     getEmailOpenReadTimes(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(),
-        callback?: Callback<EmailReadTimesCounts>): Promise<EmailReadTimesCounts> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/opens/readTimes', filter, callback);
+        callback?: Callback<EmailReadTimesCounts>, requestOptions?: RequestOptions): Promise<EmailReadTimesCounts> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/opens/readTimes', filter, callback, requestOptions);
     };
 
     /**
@@ -523,20 +619,22 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getClickCounts(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<ClickCounts>): Promise<ClickCounts> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/clicks', filter, callback);
+    getClickCounts(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<ClickCounts>, requestOptions?: RequestOptions): Promise<ClickCounts> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/clicks', filter, callback, requestOptions);
     };
 
     /**
      * Get browser family statistics for tracked links for messages sent from the Server associated with this Client.
      * @param filter Optional filtering parameters.
      * @param callback If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getClickBrowserUsage(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<BrowserUsageCounts>): Promise<BrowserUsageCounts> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/clicks/browserFamilies', filter, callback);
+    getClickBrowserUsage(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(), callback?: Callback<BrowserUsageCounts>, requestOptions?: RequestOptions): Promise<BrowserUsageCounts> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/clicks/browserFamilies', filter, callback, requestOptions);
     };
 
     /**
@@ -544,11 +642,12 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
     getClickPlatformUsage(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(),
-        callback?: Callback<ClickPlaformUsageCounts>): Promise<ClickPlaformUsageCounts> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/clicks/platforms', filter, callback);
+        callback?: Callback<ClickPlaformUsageCounts>, requestOptions?: RequestOptions): Promise<ClickPlaformUsageCounts> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/clicks/platforms', filter, callback, requestOptions);
     };
 
     /**
@@ -556,11 +655,12 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
     getClickLocation(filter: StatisticsFilteringParameters = new StatisticsFilteringParameters(),
-        callback?: Callback<ClickLocationCounts>): Promise<ClickLocationCounts> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/clicks/location', filter, callback);
+        callback?: Callback<ClickLocationCounts>, requestOptions?: RequestOptions): Promise<ClickLocationCounts> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/stats/outbound/clicks/location', filter, callback, requestOptions);
     };
 
     /**
@@ -568,10 +668,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param options - Configuration options to be used to create the trigger.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    createTagTrigger(options: CreateTagTriggerRequest, callback?: Callback<TagTrigger>): Promise<TagTrigger> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/triggers/tags', options, callback);
+    createTagTrigger(options: CreateTagTriggerRequest, callback?: Callback<TagTrigger>, requestOptions?: RequestOptions): Promise<TagTrigger> {
+        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/triggers/tags', options, callback, requestOptions);
     };
 
     /**
@@ -580,10 +681,11 @@ export default class ServerClient extends BaseClient {
      * @param id - The ID of the Tag Trigger you wish to modify.
      * @param options - Tag trigger options
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    editTagTrigger(id: number, options: UpdateTagTriggerRequest, callback?: Callback<TagTrigger>): Promise<TagTrigger> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, `/triggers/tags/${id}`, options, callback);
+    editTagTrigger(id: number, options: UpdateTagTriggerRequest, callback?: Callback<TagTrigger>, requestOptions?: RequestOptions): Promise<TagTrigger> {
+        return this.processRequestWithBody(ClientOptions.HttpMethod.PUT, `/triggers/tags/${id}`, options, callback, requestOptions);
     };
 
     /**
@@ -591,10 +693,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param id - The ID of the Tag Trigger you wish to delete.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    deleteTagTrigger(id: number, callback?: Callback<DefaultResponse>): Promise<DefaultResponse> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.DELETE, `/triggers/tags/${id}`, {}, callback);
+    deleteTagTrigger(id: number, callback?: Callback<DefaultResponse>, requestOptions?: RequestOptions): Promise<DefaultResponse> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.DELETE, `/triggers/tags/${id}`, {}, callback, requestOptions);
     };
 
     /**
@@ -602,10 +705,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param id - The ID of the Tag Trigger you wish to retrieve.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getTagTrigger(id: number, callback?: Callback<TagTrigger>): Promise<TagTrigger> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/triggers/tags/${id}`, {}, callback);
+    getTagTrigger(id: number, callback?: Callback<TagTrigger>, requestOptions?: RequestOptions): Promise<TagTrigger> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, `/triggers/tags/${id}`, {}, callback, requestOptions);
     };
 
     /**
@@ -613,11 +717,12 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getTagTriggers(filter: TagTriggerFilteringParameters = new TagTriggerFilteringParameters(), callback?: Callback<TagTriggers>): Promise<TagTriggers> {
+    getTagTriggers(filter: TagTriggerFilteringParameters = new TagTriggerFilteringParameters(), callback?: Callback<TagTriggers>, requestOptions?: RequestOptions): Promise<TagTriggers> {
         this.setDefaultPaginationValues(filter);
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/triggers/tags/', filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/triggers/tags/', filter, callback, requestOptions);
     };
 
     /**
@@ -625,10 +730,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param options - Configuration options to be used when creating this Trigger.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    createInboundRuleTrigger(options: CreateInboundRuleRequest, callback?: Callback<InboundRule>): Promise<InboundRule> {
-        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/triggers/inboundRules', options, callback);
+    createInboundRuleTrigger(options: CreateInboundRuleRequest, callback?: Callback<InboundRule>, requestOptions?: RequestOptions): Promise<InboundRule> {
+        return this.processRequestWithBody(ClientOptions.HttpMethod.POST, '/triggers/inboundRules', options, callback, requestOptions);
     };
 
     /**
@@ -636,10 +742,11 @@ export default class ServerClient extends BaseClient {
      *
      * @param id - The ID of the Inbound Rule Trigger you wish to delete.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    deleteInboundRuleTrigger(id: number, callback?: Callback<DefaultResponse>): Promise<DefaultResponse> {
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.DELETE, `/triggers/inboundRules/${id}`, {}, callback);
+    deleteInboundRuleTrigger(id: number, callback?: Callback<DefaultResponse>, requestOptions?: RequestOptions): Promise<DefaultResponse> {
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.DELETE, `/triggers/inboundRules/${id}`, {}, callback, requestOptions);
     };
 
     /**
@@ -647,10 +754,97 @@ export default class ServerClient extends BaseClient {
      *
      * @param filter - Optional filtering parameters.
      * @param callback - If the callback is provided, it will be passed to the resulting promise as a continuation.
+     * @param requestOptions - Optional options for this request, such as signal used to cancel it.
      * @returns A promise that will complete when the API responds (or an error occurs).
      */
-    getInboundRuleTriggers(filter: FilteringParameters = new FilteringParameters(), callback?: Callback<InboundRules>): Promise<InboundRules> {
+    getInboundRuleTriggers(filter: FilteringParameters = new FilteringParameters(), callback?: Callback<InboundRules>, requestOptions?: RequestOptions): Promise<InboundRules> {
         this.setDefaultPaginationValues(filter);
-        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/triggers/inboundRules', filter, callback);
+        return this.processRequestWithoutBody(ClientOptions.HttpMethod.GET, '/triggers/inboundRules', filter, callback, requestOptions);
     };
+
+    /**
+     * Validate messages when message validation is enabled in client options, and process request only for valid messages.
+     *
+     * @param messages - Messages which will be sent.
+     * @param templated - Whether messages are sent with templates.
+     * @param batch - Whether messages are sent as a batch.
+     * @param callback - callback function to be executed when messages are invalid.
+     * @param processRequest - Function processing the request.
+     *
+     * @returns A promise that will complete when the API responds (or validation or request fails).
+     */
+    private processMessageRequest<T>(messages: Array<(Message | TemplatedMessage)>, templated: boolean, batch: boolean,
+        callback: (Callback<T> | undefined), processRequest: () => Promise<T>): Promise<T> {
+        if (this.clientOptions.validateMessages) {
+            try {
+                new MessageValidator().assertValid(messages, templated, batch);
+            } catch (error) {
+                const rejectedRequest: Promise<T> = Promise.reject(error);
+                this.processCallbackRequest(rejectedRequest, callback);
+                return rejectedRequest;
+            }
+        }
+
+        return processRequest();
+    }
+
+    /**
+     * Send message with the API, and over SMTP when the API fails with an error which triggers failover.
+     *
+     * @param email - Email message to send.
+     * @param options - SMTP connection and failover policy.
+     * @param requestOptions - Options for the API request.
+     *
+     * @returns A promise that will complete when the API or SMTP server accepts the message (or an error occurs).
+     */
+    private sendEmailWithSmtpFallback(email: Message, options: SmtpFallbackOptions,
+        requestOptions?: RequestOptions): Promise<MessageSendingResponse> {
+        if (this.failoverHandler === undefined || this.smtpTransport === undefined || !this.isSmtpFallbackConfigured(options)) {
+            this.smtpFallbackOptions = { ...options };
+            this.failoverHandler = new FailoverHandler(options.failoverPolicy);
+            this.smtpTransport = new SmtpTransport(options);
+        }
+
+        const smtpTransport = this.smtpTransport;
+        return this.failoverHandler.execute(
+            () => this.processRequestWithBody<MessageSendingResponse>(ClientOptions.HttpMethod.POST, '/email', this.formatAddresses(email),
+                undefined, requestOptions),
+            () => {
+                const signal = (requestOptions !== undefined) ? requestOptions.signal : undefined;
+                if (signal !== undefined && signal.aborted) {
+                    return Promise.reject(new Errors.RequestAbortedError('Request was aborted.'));
+                }
+
+                return this.getToken().then(token => smtpTransport.send(email, token));
+            });
+    }
+
+    /**
+     * Check whether SMTP transport and failover handler were created with the same fallback options, so that they are
+     * created again when smtpFallback in client options is replaced or its fields are changed.
+     */
+    private isSmtpFallbackConfigured(options: SmtpFallbackOptions): boolean {
+        const configured = this.smtpFallbackOptions || {};
+        const fields = <Array<keyof SmtpFallbackOptions>>Object.keys({ ...configured, ...options });
+
+        return fields.every(field => configured[field] === options[field]);
+    }
+
+    /**
+     * Format addresses provided as objects into address lists the API expects. Addresses provided as strings are sent unchanged.
+     */
+    private formatAddresses<T extends (Message | TemplatedMessage)>(message: T): T {
+        const fields = AddressList.MessageFields.filter(field => {
+            const addresses = message[field];
+            return addresses !== undefined && addresses !== null && typeof addresses !== 'string';
+        });
+
+        if (fields.length === 0) {
+            return message;
+        }
+
+        const formatted: (Message | TemplatedMessage) = Object.assign({}, message);
+        fields.forEach(field => formatted[field] = AddressList.format(message[field]));
+        return <T>formatted;
+    }
 }
@@ -0,0 +1,260 @@
+import {
+    TemplateRenderOptions, TemplateValidation, TemplateValidationOptions, ValidationError, ValidationSection
+} from "./models";
+
+type TemplateNodeType = ('text' | 'variable' | 'section' | 'inverted' | 'each');
+
+/**
+ * Parsed part of template content. Sections contain nodes rendered for the section.
+ */
+interface TemplateNode {
+    type: TemplateNodeType;
+    value: string;
+    escape: boolean;
+    position: number;
+    children: TemplateNode[];
+}
+
+/**
+ * This class renders templates locally, following the template syntax the API uses:
+ * {{variable}}, {{{unescaped}}}, {{#section}}, {{^inverted}}, {{#each collection}}, dotted paths and ../ parent scopes.
+ * Result has the same shape as the result of validateTemplate, so templates can be previewed and tested without the API.
+ */
+export class TemplateRenderer {
+    private readonly options: TemplateRenderOptions;
+
+    constructor(options: TemplateRenderOptions = {}) {
+        this.options = options;
+    }
+
+    /**
+     * Render template subject, HTML body and text body. Only variables in HTML body are HTML escaped.
+     *
+     * @example
+     * const result = new TemplateRenderer().render({ Subject: 'Hello {{name}}' }, { name: 'John' });
+     * // result.Subject.RenderedContent === 'Hello John'
+     *
+     * @param template - Template, or template content to render.
+     * @param model - Model used to render the template. Defaults to TestRenderModel of template content.
+     *
+     * @returns rendered content, problems found in each part of the template and model suggested by template variables.
+     */
+    public render(template: TemplateValidationOptions, model?: object): TemplateValidation {
+        const renderModel = (model !== undefined) ? model : (template.TestRenderModel || {});
+        const suggestedModel = {};
+        const subject = this.renderContent(template.Subject, renderModel, false, suggestedModel);
+        const htmlBody = this.renderContent(template.HtmlBody, renderModel, true, suggestedModel);
+        const textBody = this.renderContent(template.TextBody, renderModel, false, suggestedModel);
+
+        return {
+            AllContentIsValid: subject.ContentIsValid && htmlBody.ContentIsValid && textBody.ContentIsValid,
+            Subject: subject,
+            HtmlBody: htmlBody,
+            TextBody: textBody,
+            SuggestedTemplateModel: suggestedModel
+        };
+    }
+
+    private renderContent(content: (string | undefined | null), model: object, escape: boolean, suggestedModel: object): ValidationSection {
+        const text = content || '';
+        const syntaxErrors: ValidationError[] = [];
+        const nodes = this.parse(text, escape, syntaxErrors);
+
+        if (syntaxErrors.length > 0) {
+            return { ContentIsValid: false, ValidationErrors: syntaxErrors, RenderedContent: '' };
+        }
+
+        const missingVariables: ValidationError[] = [];
+        const renderedContent = this.renderNodes(nodes, [model], text, missingVariables);
+        this.suggestModel(nodes, [suggestedModel]);
+
+        return {
+            ContentIsValid: !this.options.strict || missingVariables.length === 0,
+            ValidationErrors: missingVariables,
+            RenderedContent: renderedContent
+        };
+    }
+
+    /**
+     * Split content into text, variables and sections.
+     */
+    private parse(content: string, escape: boolean, errors: ValidationError[]): TemplateNode[] {
+        const root: TemplateNode[] = [];
+        const sections: TemplateNode[] = [];
+        const tagPattern = /\{\{\{\s*(.*?)\s*\}\}\}|\{\{\s*([#^\/&!]?)\s*(.*?)\s*\}\}/g;
+        const addNode = (node: TemplateNode) => (sections.length > 0 ? sections[sections.length - 1].children : root).push(node);
+        let position = 0;
+        let match: (RegExpExecArray | null);
+
+        while ((match = tagPattern.exec(content)) !== null) {
+            if (match.index > position) {
+                addNode(this.node('text', content.substring(position, match.index), false, position));
+            }
+            position = tagPattern.lastIndex;
+
+            const tag = (match[1] !== undefined) ? '&' : match[2];
+            const name = (match[1] !== undefined) ? match[1] : match[3];
+
+            if (tag === '!') {
+                continue;
+            }
+
+            if (name === '' || (tag === '#' && name === 'each')) {
+                errors.push(this.error(`Tag '${match[0]}' is missing variable name.`, content, match.index));
+                return [];
+            }
+
+            if (tag === '/') {
+                const section = sections.pop();
+                const sectionName = (section === undefined) ? undefined : (section.type === 'each') ? 'each' : section.value;
+
+                if (name !== sectionName) {
+                    errors.push(this.error(`Closing tag '${match[0]}' doesn't match any open section.`, content, match.index));
+                    return [];
+                }
+            }
+            else if (tag === '#' || tag === '^') {
+                const isEach = (tag === '#' && /^each\s+/.test(name));
+                const section = this.node(isEach ? 'each' : (tag === '#') ? 'section' : 'inverted',
+                    isEach ? name.replace(/^each\s+/, '') : name, false, match.index);
+
+                addNode(section);
+                sections.push(section);
+            }
+            else {
+                addNode(this.node('variable', name, escape && tag !== '&', match.index));
+            }
+        }
+
+        if (sections.length > 0) {
+            const section = sections[sections.length - 1];
+            errors.push(this.error(`Section '${section.value}' is not closed.`, content, section.position));
+            return [];
+        }
+
+        if (position < content.length) {
+            addNode(this.node('text', content.substring(position), false, position));
+        }
+
+        return root;
+    }
+
+    private renderNodes(nodes: TemplateNode[], scopes: any[], content: string, missingVariables: ValidationError[]): string {
+        return nodes.map(node => {
+            if (node.type === 'text') {
+                return node.value;
+            }
+
+            const value = this.resolve(node.value, scopes);
+            if (value === undefined && node.type !== 'inverted') {
+                this.reportMissingVariable(node, content, missingVariables);
+            }
+
+            switch (node.type) {
+                case 'variable':
+                    return this.formatValue(value, node.escape);
+                case 'section':
+                    return this.isTruthy(value) ? this.renderNodes(node.children,
+                        [...scopes, (typeof value === 'object') ? value : scopes[scopes.length - 1]], content, missingVariables) : '';
+                case 'inverted':
+                    return this.isTruthy(value) ? '' : this.renderNodes(node.children, scopes, content, missingVariables);
+                default:
+                    return Array.isArray(value) ?
+                        value.map(item => this.renderNodes(node.children, [...scopes, item], content, missingVariables)).join('') : '';
+            }
+        }).join('');
+    }
+
+    /**
+     * Find value of variable path, like name, customer.name, . for current scope or ../name for parent scope.
+     */
+    private resolve(path: string, scopes: any[]): any {
+        let depth = scopes.length - 1;
+        let remainingPath = path;
+
+        while (remainingPath.indexOf('../') === 0) {
+            depth--;
+            remainingPath = remainingPath.substring(3);
+        }
+
+        if (depth < 0) {
+            return undefined;
+        }
+
+        if (remainingPath === '.' || remainingPath === 'this') {
+            return scopes[depth];
+        }
+
+        return remainingPath.split('.').reduce((value: any, key: string) =>
+            (value !== undefined && value !== null && typeof value === 'object') ? value[key] : undefined, scopes[depth]);
+    }
+
+    /**
+     * Build model containing all variables used in template, with placeholder values, the same way the API suggests models.
+     */
+    private suggestModel(nodes: TemplateNode[], scopes: any[]): void {
+        nodes.filter(node => node.type !== 'text').forEach(node => {
+            let depth = scopes.length - 1;
+            let path = node.value;
+
+            while (path.indexOf('../') === 0 && depth > 0) {
+                depth--;
+                path = path.substring(3);
+            }
+
+            const keys = (path === '.' || path === 'this') ? [] : path.split('.');
+            const parent = keys.slice(0, -1).reduce((scope: any, key: string) =>
+                (typeof scope[key] === 'object' && scope[key] !== null) ? scope[key] : (scope[key] = {}), scopes[depth]);
+            const key = keys[keys.length - 1];
+
+            if (key === undefined || typeof scopes[depth] !== 'object') {
+                this.suggestModel(node.children, scopes);
+            }
+            else if (node.type === 'variable' || node.type === 'inverted') {
+                parent[key] = (parent[key] !== undefined) ? parent[key] : `${key}_Value`;
+                this.suggestModel(node.children, scopes);
+            }
+            else if (node.type === 'each') {
+                parent[key] = Array.isArray(parent[key]) ? parent[key] : [{}];
+                this.suggestModel(node.children, [...scopes, parent[key][0]]);
+            }
+            else {
+                parent[key] = (typeof parent[key] === 'object' && parent[key] !== null) ? parent[key] : {};
+                this.suggestModel(node.children, [...scopes, parent[key]]);
+            }
+        });
+    }
+
+    private reportMissingVariable(node: TemplateNode, content: string, missingVariables: ValidationError[]): void {
+        const error = this.error(`The variable '${node.value}' is not defined in the model.`, content, node.position);
+
+        if (!missingVariables.some(missing => missing.Line === error.Line && missing.CharacterPosition === error.CharacterPosition)) {
+            missingVariables.push(error);
+        }
+    }
+
+    private isTruthy(value: any): boolean {
+        return value !== undefined && value !== null && value !== false && value !== '' && !(Array.isArray(value) && value.length === 0);
+    }
+
+    private formatValue(value: any, escape: boolean): string {
+        const text = (value === undefined || value === null || typeof value === 'object') ? '' : String(value);
+        return escape ? this.escapeHtml(text) : text;
+    }
+
+    private escapeHtml(text: string): string {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+    }
+
+    private node(type: TemplateNodeType, value: string, escape: boolean, position: number): TemplateNode {
+        return { type: type, value: value, escape: escape, position: position, children: [] };
+    }
+
+    /**
+     * Create error pointing at line and character position of the tag, both starting at 1.
+     */
+    private error(message: string, content: string, position: number): ValidationError {
+        const lines = content.substring(0, position).split('\n');
+        return { Message: message, Line: lines.length, CharacterPosition: lines[lines.length - 1].length + 1 };
+    }
+}
@@ -0,0 +1,26 @@
+import { Hash } from "./SupportingTypes";
+
+/**
+ * Describes API response data together with HTTP response metadata.
+ */
+export interface ApiResponse<T> {
+    data: T;
+    status: number;
+    headers: Hash<string>;
+
+    /**
+     * Time from the start of the call until the response was received, including retries, in milliseconds.
+     */
+    durationMs: number;
+}
+
+/**
+ * Describes result of a client call made with withResponse. HTTP response metadata is null when the call completed
+ * without an HTTP response, for example when message was sent with SMTP fallback, or when an empty batch was sent.
+ */
+export interface ApiCallResult<T> {
+    data: T;
+    status: (number | null);
+    headers: (Hash<string> | null);
+    durationMs: (number | null);
+}
@@ -0,0 +1,24 @@
+/**
+ * Describes how large batches are split into requests the API accepts.
+ */
+export interface BatchOptions {
+    /**
+     * Maximum number of messages sent in a single request. API accepts up to 500 messages.
+     */
+    maxMessages?: number;
+
+    /**
+     * Maximum size of a single request body in bytes. API accepts up to 50 MB, including attachments.
+     */
+    maxBytes?: number;
+
+    /**
+     * Maximum number of batch requests in flight at the same time.
+     */
+    concurrency?: number;
+
+    /**
+     * Reject batch sends returning [[BatchResult]] with [[BatchPartialFailureError]], when any message is rejected by the API or could not be sent.
+     */
+    strict?: boolean;
+}
@@ -0,0 +1,60 @@
+/**
+ * Postmark API error codes, returned in ErrorCode field of API responses.
+ * @see https://postmarkapp.com/developer/api/overview#error-codes
+ */
+export enum ErrorCode {
+    Success = 0,
+    BadOrMissingApiToken = 10,
+    Maintenance = 100,
+    InvalidEmailRequest = 300,
+    SenderSignatureNotFound = 400,
+    SenderSignatureNotConfirmed = 401,
+    InvalidJson = 402,
+    IncompatibleJson = 403,
+    NotAllowedToSend = 405,
+    InactiveRecipient = 406,
+    BounceNotFound = 407,
+    BounceQueryException = 408,
+    JsonRequired = 409,
+    TooManyBatchMessages = 410,
+    ForbiddenAttachmentType = 411,
+    AccountIsPending = 412,
+    AccountMayNotSend = 413,
+    SenderSignatureQueryException = 500,
+    SenderSignatureNotFoundById = 501,
+    NoUpdatedSenderSignatureData = 502,
+    PublicDomainNotAllowed = 503,
+    SenderSignatureAlreadyExists = 504,
+    DkimAlreadyScheduledForRenewal = 505,
+    SenderSignatureAlreadyConfirmed = 506,
+    SenderSignatureNotOwned = 507,
+    DomainNotFound = 510,
+    InvalidFieldsSupplied = 511,
+    DomainAlreadyExists = 512,
+    DomainNotOwned = 513,
+    ServerQueryException = 600,
+    ServerNotFound = 601,
+    DuplicateInboundDomain = 602,
+    ServerNameAlreadyExists = 603,
+    NoDeleteAccess = 604,
+    UnableToDeleteServer = 605,
+    InvalidWebhookUrl = 606,
+    InvalidServerColor = 607,
+    ServerNameMissing = 608,
+    NoUpdatedServerData = 609,
+    InvalidMxRecord = 610,
+    InvalidInboundSpamThreshold = 611,
+    MessagesQueryException = 700,
+    MessageNotFound = 701,
+    CouldNotBypassInboundMessage = 702,
+    CouldNotRetryInboundMessage = 703,
+    TriggerQueryException = 800,
+    TemplateQueryException = 1100,
+    TemplateNotFound = 1101,
+    TemplateLimitExceeded = 1105,
+    NoTemplateDataReceived = 1109,
+    RequiredTemplateFieldMissing = 1120,
+    TemplateFieldTooLarge = 1121,
+    InvalidTemplateField = 1122,
+    TemplateFieldNotAllowed = 1123
+}
@@ -1,3 +1,8 @@
+import { BatchResult } from "../message/BatchResult";
+import { Message, MessageSendingResponse } from "../message/Message";
+import { TemplatedMessage } from "../templates/Template";
+import { FieldError } from "../message/Validation";
+
 /**
  * Standard Postmark error on which all sub-errors are based.
  */
@@ -5,10 +10,31 @@ export class PostmarkError extends Error {
     public code: number;
     public statusCode: number;
 
+    /**
+     * Number of attempts made before the request failed with this error.
+     */
+    public attempts: number;
+
+    /**
+     * HTTP method of the request which failed.
+     */
+    public method?: string;
+
+    /**
+     * API endpoint path of the request which failed.
+     */
+    public path?: string;
+
+    /**
+     * Raw response body returned by the API, when API responded.
+     */
+    public responseBody?: any;
+
     constructor(message: string, code: number = 0, statusCode: number = 0) {
         super(message);
         this.statusCode = statusCode;
         this.code = code;
+        this.attempts = 1;
 
         // this is mandatory due:
         // https://github.com/Microsoft/TypeScript/wiki/Breaking-Changes#extending-built-ins-like-error-array-and-map-may-no-longer-work
@@ -46,6 +72,72 @@ export class ApiInputError extends HttpError {
     }
 }
 
+/**
+ * Request contained invalid values, for example invalid email address. Error code 300.
+ */
+export class InvalidEmailRequestError extends ApiInputError {
+    constructor(message: string, code: number, statusCode: number) {
+        super(message, code, statusCode);
+        Object.setPrototypeOf(this, InvalidEmailRequestError.prototype);
+        this.setUpStackTrace();
+    }
+}
+
+/**
+ * All recipients of the message are marked as inactive due to bounces or spam complaints. Error code 406.
+ */
+export class InactiveRecipientError extends ApiInputError {
+    constructor(message: string, code: number, statusCode: number) {
+        super(message, code, statusCode);
+        Object.setPrototypeOf(this, InactiveRecipientError.prototype);
+        this.setUpStackTrace();
+    }
+}
+
+/**
+ * Template with provided ID or alias was not found. Error code 1101.
+ */
+export class TemplateNotFoundError extends ApiInputError {
+    constructor(message: string, code: number, statusCode: number) {
+        super(message, code, statusCode);
+        Object.setPrototypeOf(this, TemplateNotFoundError.prototype);
+        this.setUpStackTrace();
+    }
+}
+
+/**
+ * Requested API endpoint or resource was not found. HTTP status 404.
+ */
+export class NotFoundError extends HttpError {
+    constructor(message: string, code: number, statusCode: number) {
+        super(message, code, statusCode);
+        Object.setPrototypeOf(this, NotFoundError.prototype);
+        this.setUpStackTrace();
+    }
+}
+
+/**
+ * Request payload exceeds the size allowed by the API. HTTP status 413.
+ */
+export class RequestTooLargeError extends HttpError {
+    constructor(message: string, code: number, statusCode: number) {
+        super(message, code, statusCode);
+        Object.setPrototypeOf(this, RequestTooLargeError.prototype);
+        this.setUpStackTrace();
+    }
+}
+
+/**
+ * Too many requests were sent to the API in a short period of time. HTTP status 429.
+ */
+export class RateLimitExceededError extends HttpError {
+    constructor(message: string, code: number, statusCode: number) {
+        super(message, code, statusCode);
+        Object.setPrototypeOf(this, RateLimitExceededError.prototype);
+        this.setUpStackTrace();
+    }
+}
+
 export class InternalServerError extends HttpError {
     constructor(message: string, code: number, statusCode: number) {
         super(message, code, statusCode);
@@ -68,4 +160,118 @@ export class UnknownError extends HttpError {
         Object.setPrototypeOf(this, UnknownError.prototype);
         this.setUpStackTrace();
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Request was cancelled with AbortSignal provided in request options.
+ */
+export class RequestAbortedError extends PostmarkError {
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, RequestAbortedError.prototype);
+        this.setUpStackTrace();
+    }
+}
+
+/**
+ * Request failed before API responded, for example because connection could not be established.
+ */
+export class NetworkError extends PostmarkError {
+    /**
+     * System error code, for example ECONNRESET.
+     */
+    public systemCode: string;
+
+    constructor(message: string, systemCode: string) {
+        super(message);
+        this.systemCode = systemCode;
+        Object.setPrototypeOf(this, NetworkError.prototype);
+        this.setUpStackTrace();
+    }
+}
+
+/**
+ * API did not respond within configured timeout.
+ */
+export class TimeoutError extends NetworkError {
+    constructor(message: string, systemCode: string) {
+        super(message, systemCode);
+        Object.setPrototypeOf(this, TimeoutError.prototype);
+        this.setUpStackTrace();
+    }
+}
+
+/**
+ * Some messages in a batch were rejected by the API. Thrown only when strict mode is enabled in batch options.
+ */
+export class BatchPartialFailureError<T = (Message | TemplatedMessage)> extends PostmarkError {
+    /**
+     * Result of the whole batch, including messages which were accepted.
+     */
+    public result: BatchResult<T>;
+
+    constructor(message: string, result: BatchResult<T>) {
+        super(message);
+        this.result = result;
+        Object.setPrototypeOf(this, BatchPartialFailureError.prototype);
+        this.setUpStackTrace();
+    }
+}
+
+/**
+ * Batch request failed after some of its chunks were accepted by the API, so some messages were already sent.
+ * Message, code and status code are copied from the error of the failed chunk.
+ */
+export class BatchInterruptedError<R = MessageSendingResponse> extends PostmarkError {
+    /**
+     * Error the failed chunk was rejected with.
+     */
+    public error: PostmarkError;
+
+    /**
+     * Responses in the same order as batch messages. Messages which were not accepted have no response.
+     */
+    public responses: Array<R | undefined>;
+
+    constructor(error: PostmarkError, responses: Array<R | undefined>) {
+        super(error.message, error.code, error.statusCode);
+        this.error = error;
+        this.responses = responses;
+        Object.setPrototypeOf(this, BatchInterruptedError.prototype);
+        this.setUpStackTrace();
+    }
+}
+
+/**
+ * Message was rejected by client side validation, before it was sent.
+ */
+export class MessageValidationError extends PostmarkError {
+    /**
+     * Problems found in the message, each pointing at the invalid field.
+     */
+    public errors: FieldError[];
+
+    constructor(message: string, code: number, errors: FieldError[]) {
+        super(message, code);
+        this.errors = errors;
+        Object.setPrototypeOf(this, MessageValidationError.prototype);
+        this.setUpStackTrace();
+    }
+}
+
+/**
+ * SMTP server rejected a command, for example because credentials or recipients are invalid.
+ */
+export class SmtpError extends PostmarkError {
+    /**
+     * SMTP reply code, for example 535.
+     */
+    public replyCode: number;
+
+    constructor(message: string, replyCode: number) {
+        super(message);
+        this.replyCode = replyCode;
+        Object.setPrototypeOf(this, SmtpError.prototype);
+        this.setUpStackTrace();
+    }
+}
@@ -0,0 +1,63 @@
+import { Transport, TransportResponse } from "./Transport";
+import { Hash } from "./SupportingTypes";
+
+/**
+ * How [[FixtureTransport]] uses its fixture file.
+ */
+export enum FixtureMode {
+    /**
+     * Execute requests and save them to fixture file.
+     */
+    Record = 'record',
+
+    /**
+     * Respond with saved responses, without network access.
+     */
+    Replay = 'replay',
+
+    /**
+     * Replay when fixture file exists, otherwise record.
+     */
+    Auto = 'auto'
+}
+
+/**
+ * Request saved to fixture file. Headers are not saved, so that API tokens never end up in fixtures.
+ */
+export interface FixtureRequest {
+    method: string;
+    path: string;
+    query: Hash<string>;
+    body: (null | object);
+}
+
+/**
+ * Request and response pair saved to fixture file.
+ */
+export interface FixtureInteraction {
+    request: FixtureRequest;
+    response: TransportResponse;
+}
+
+export interface FixtureOptions {
+    /**
+     * Path of JSON file interactions are saved to and replayed from.
+     */
+    file: string;
+    mode?: FixtureMode;
+
+    /**
+     * Transport used to execute requests while recording. When not provided, [[HttpTransport]] is used.
+     */
+    transport?: Transport;
+
+    /**
+     * Compare query parameters when looking for saved interaction. Method and path are always compared.
+     */
+    matchQuery?: boolean;
+
+    /**
+     * Compare request bodies when looking for saved interaction.
+     */
+    matchBody?: boolean;
+}
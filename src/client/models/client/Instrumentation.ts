@@ -0,0 +1,32 @@
+import { Hash } from "./SupportingTypes";
+
+export type AttributeValue = (string | number | boolean);
+
+/**
+ * Span covering a single client call, including all of its retries.
+ */
+export interface Span {
+    setAttributes(attributes: Hash<AttributeValue>): void;
+    recordError(error: Error): void;
+    end(): void;
+}
+
+/**
+ * Tracer used to open spans. Can be bridged to OpenTelemetry or any other tracing library.
+ */
+export interface Tracer {
+    startSpan(name: string, attributes: Hash<AttributeValue>): Span;
+}
+
+/**
+ * Metrics registry receiving client counters and histograms. Can be bridged to Prometheus-style registries.
+ */
+export interface Metrics {
+    incrementCounter(name: string, labels: Hash<string>, value?: number): void;
+    recordHistogram(name: string, value: number, labels: Hash<string>): void;
+}
+
+export interface InstrumentationOptions {
+    tracer?: Tracer;
+    metrics?: Metrics;
+}
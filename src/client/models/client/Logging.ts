@@ -0,0 +1,60 @@
+/**
+ * Log levels, ordered by severity. Events below configured level are not logged.
+ */
+export enum LogLevel {
+    Debug = 0,
+    Info = 1,
+    Warn = 2,
+    Error = 3,
+    Silent = 4
+}
+
+/**
+ * Structured log event emitted by the client. API tokens and attachment content are always redacted.
+ */
+export interface LogEvent {
+    event: 'request' | 'response' | 'error';
+    method: string;
+    url: string;
+    queryParameters: object;
+    headers?: object;
+
+    /**
+     * Request body serialized to JSON, truncated to configured length.
+     */
+    body?: string;
+    statusCode?: number;
+
+    /**
+     * Response body serialized to JSON, truncated to configured length.
+     */
+    responseBody?: string;
+    durationMs?: number;
+    error?: { name: string, message: string, code?: string };
+}
+
+/**
+ * Logger receiving client log events. Console is a valid logger.
+ */
+export interface Logger {
+    debug(message: string, event: LogEvent): void;
+    info(message: string, event: LogEvent): void;
+    warn(message: string, event: LogEvent): void;
+    error(message: string, event: LogEvent): void;
+}
+
+export interface LoggingOptions {
+    logger: Logger;
+
+    /**
+     * Minimum level of logged events. Request start is logged at Debug level,
+     * successful responses at Info level, error responses at Warn level and network errors at Error level.
+     * Defaults to Info.
+     */
+    level?: LogLevel;
+
+    /**
+     * Maximum number of characters of request and response bodies included in log events. Defaults to 1000.
+     */
+    maxBodyLength?: number;
+}
@@ -0,0 +1,32 @@
+import { ClientOptions } from "./ClientOptions";
+import { Hash } from "./SupportingTypes";
+import { TransportResponse } from "./Transport";
+
+/**
+ * Describes API request passed through the middleware chain.
+ * Middleware can modify any of the values before passing the request to the next middleware.
+ */
+export interface MiddlewareRequest {
+    method: ClientOptions.HttpMethod;
+    path: string;
+    queryParameters: object;
+    body: (null | object);
+    headers: Hash<string>;
+    signal?: AbortSignal;
+}
+
+/**
+ * Passes the request to the next middleware in the chain, or to the transport when there are no more middleware.
+ */
+export interface MiddlewareNext {
+    (request: MiddlewareRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Middleware wraps API requests. It can modify the request, short-circuit it by returning a response
+ * without calling next, call next more than once to retry it, or modify the response.
+ * Responses with status other than 200 are turned into errors after the whole chain completes.
+ */
+export interface Middleware {
+    (request: MiddlewareRequest, next: MiddlewareNext): Promise<TransportResponse>;
+}
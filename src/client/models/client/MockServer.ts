@@ -0,0 +1,45 @@
+import { Bounce } from "../bounces/Bounce";
+import { DomainDetails } from "../domains/Domain";
+import { SignatureDetails } from "../senders/Signature";
+import { Server } from "../server/Server";
+import { Template } from "../templates/Template";
+import { SandboxOptions } from "./Sandbox";
+
+export interface MockServerOptions {
+    /**
+     * Port the server listens on. When not provided, a free port is chosen.
+     */
+    port?: number;
+
+    /**
+     * Host the server listens on, 127.0.0.1 by default.
+     */
+    host?: string;
+
+    /**
+     * Only server token accepted by the server. When not provided, any server token is accepted.
+     */
+    serverToken?: string;
+
+    /**
+     * Only account token accepted by the server. When not provided, any account token is accepted.
+     */
+    accountToken?: string;
+
+    /**
+     * Options used to validate sent messages.
+     */
+    sandbox?: SandboxOptions;
+}
+
+/**
+ * In-memory state of [[MockServer]]. State can be inspected and modified directly, for example to add bounces.
+ */
+export interface MockServerState {
+    server: Server;
+    templates: Template[];
+    bounces: Bounce[];
+    servers: Server[];
+    domains: DomainDetails[];
+    senders: SignatureDetails[];
+}
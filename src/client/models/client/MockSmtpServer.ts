@@ -0,0 +1,58 @@
+import * as tls from "tls";
+
+export interface MockSmtpServerOptions {
+    /**
+     * Port the server listens on. When not provided, a free port is chosen.
+     */
+    port?: number;
+
+    /**
+     * Host the server listens on, 127.0.0.1 by default.
+     */
+    host?: string;
+
+    /**
+     * Only server token accepted as credentials. When not provided, any credentials are accepted.
+     */
+    serverToken?: string;
+
+    /**
+     * Key and certificate used for STARTTLS. When not provided, STARTTLS is not offered.
+     */
+    tls?: tls.SecureContextOptions;
+}
+
+/**
+ * Message received by [[MockSmtpServer]].
+ */
+export interface MockSmtpMessage {
+    /**
+     * Sender address from MAIL FROM command.
+     */
+    from: string;
+
+    /**
+     * Recipient addresses from RCPT TO commands, including Bcc recipients.
+     */
+    recipients: string[];
+
+    /**
+     * Raw MIME document.
+     */
+    data: string;
+
+    /**
+     * User name the client authenticated with.
+     */
+    username?: string;
+
+    /**
+     * Whether message was received over TLS.
+     */
+    secure: boolean;
+
+    /**
+     * Message ID returned to the client.
+     */
+    messageId: string;
+}
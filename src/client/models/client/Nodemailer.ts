@@ -0,0 +1,93 @@
+import { Hash } from "./SupportingTypes";
+import { LinkTrackingOptions } from "../message/SupportingTypes";
+
+/**
+ * Address in the format Nodemailer uses.
+ */
+export interface NodemailerAddress {
+    name?: string;
+    address: string;
+}
+
+/**
+ * Address fields accept the same values Nodemailer accepts: address strings, address objects or lists of them.
+ */
+export type NodemailerAddresses = (string | NodemailerAddress | Array<string | NodemailerAddress>);
+
+/**
+ * Attachment in the format Nodemailer uses. Content can be provided directly, with a stream, or with a file path.
+ */
+export interface NodemailerAttachment {
+    filename?: string;
+    content?: (string | Buffer | NodeJS.ReadableStream);
+    path?: string;
+    contentType?: string;
+    contentDisposition?: ('attachment' | 'inline');
+
+    /**
+     * Content ID of inline attachment, referenced in HTML body with cid: URLs.
+     */
+    cid?: string;
+
+    /**
+     * Encoding of string content, for example base64. Default: utf8.
+     */
+    encoding?: string;
+}
+
+/**
+ * Header value in the format Nodemailer uses for prepared header values.
+ */
+export interface NodemailerHeaderValue {
+    prepared?: boolean;
+    value: string;
+}
+
+/**
+ * Mail options accepted by Nodemailer sendMail, extended with fields which have no standard header.
+ */
+export interface NodemailerMailOptions {
+    from?: (string | NodemailerAddress);
+    to?: NodemailerAddresses;
+    cc?: NodemailerAddresses;
+    bcc?: NodemailerAddresses;
+    replyTo?: NodemailerAddresses;
+    subject?: string;
+    text?: (string | Buffer);
+    html?: (string | Buffer);
+    headers?: (Hash<string | string[] | NodemailerHeaderValue> | Array<{ key: string, value: string }>);
+    attachments?: NodemailerAttachment[];
+
+    tag?: string;
+    metadata?: Hash<string>;
+    trackOpens?: boolean;
+    trackLinks?: LinkTrackingOptions;
+
+    /**
+     * Send message with template instead of subject and bodies. Template can be identified by ID or alias.
+     */
+    templateId?: number;
+    templateAlias?: string;
+    templateModel?: object;
+}
+
+/**
+ * Mail object passed by Nodemailer to transports. Mail options are in the data field.
+ */
+export interface NodemailerMail {
+    data: NodemailerMailOptions;
+}
+
+/**
+ * Info object returned by Nodemailer sendMail.
+ */
+export interface NodemailerSentMessageInfo {
+    /**
+     * Postmark message ID.
+     */
+    messageId: string;
+    envelope: { from: string, to: string[] };
+    accepted: string[];
+    rejected: string[];
+    response: string;
+}
@@ -0,0 +1,26 @@
+/**
+ * Describes client side limits for requests sent to the API.
+ */
+export interface RateLimitOptions {
+    /**
+     * Maximum average number of requests started per second. When not provided, request rate is not limited.
+     */
+    requestsPerSecond?: number;
+
+    /**
+     * Maximum number of requests which can be started at once, before requests are limited to average rate.
+     * Defaults to requestsPerSecond.
+     */
+    burst?: number;
+
+    /**
+     * Maximum number of requests in flight at the same time. When not provided, concurrency is not limited.
+     */
+    maxConcurrent?: number;
+
+    /**
+     * Share limits with all clients in this process using the same key, for example to limit clients of several servers together.
+     * Clients sharing a key must use the same limits. When not provided, limits are shared by clients using the same API token.
+     */
+    key?: string;
+}
@@ -0,0 +1,16 @@
+import { ApiResponse } from "./ApiResponse";
+
+/**
+ * Options which can be provided for a single API request.
+ */
+export interface RequestOptions {
+    /**
+     * Signal used to cancel the request. When the signal is aborted, request is rejected with RequestAbortedError.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Called with response data and HTTP response metadata, such as status and headers, when request succeeds.
+     */
+    onResponse?: (response: ApiResponse<any>) => void;
+}
@@ -0,0 +1,47 @@
+import { ClientOptions } from "./ClientOptions";
+
+/**
+ * Describes when and how failed requests are retried. All values are optional, default values are used for values
+ * which are not provided.
+ */
+export interface RetryPolicy {
+    /**
+     * Maximum number of attempts, including the first one. Set to 1 to disable retries.
+     */
+    maxAttempts?: number;
+
+    /**
+     * Delay before the first retry in milliseconds. Delay is doubled with each following retry.
+     */
+    initialDelay?: number;
+
+    /**
+     * Maximum delay between two attempts in milliseconds.
+     */
+    maxDelay?: number;
+
+    /**
+     * Randomize delays, so that many clients failing at the same time don't retry at the same time.
+     */
+    jitter?: boolean;
+
+    /**
+     * HTTP methods which are safe to retry on any retryable status or network error.
+     */
+    retryableMethods?: ClientOptions.HttpMethod[];
+
+    /**
+     * HTTP response statuses which are retried for retryable methods.
+     */
+    retryableStatusCodes?: number[];
+
+    /**
+     * Network error codes which are retried for retryable methods.
+     */
+    retryableErrorCodes?: string[];
+
+    /**
+     * Network error codes which mean that request never reached the server. These are retried for all methods.
+     */
+    connectionErrorCodes?: string[];
+}
@@ -0,0 +1,31 @@
+import { Message, MessageSendingResponse } from "../message/Message";
+import { TemplatedMessage } from "../templates/Template";
+
+/**
+ * Message accepted by [[SandboxTransport]], kept in its outbox instead of being sent.
+ */
+export interface SandboxMessage {
+    /**
+     * API endpoint the message was sent to, for example /email or /email/withTemplate.
+     */
+    path: string;
+    message: (Message | TemplatedMessage);
+    response: MessageSendingResponse;
+}
+
+export interface SandboxOptions {
+    /**
+     * Recipients which are rejected as inactive, for example because they hard bounced or marked messages as spam.
+     */
+    inactiveRecipients?: string[];
+
+    /**
+     * Maximum number of To, Cc and Bcc recipients of a single message.
+     */
+    maxRecipients?: number;
+
+    /**
+     * Maximum number of messages in a single batch.
+     */
+    maxBatchSize?: number;
+}
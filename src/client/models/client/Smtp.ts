@@ -0,0 +1,80 @@
+import * as tls from "tls";
+
+/**
+ * Options of SMTP connection used by [[SmtpTransport]]. All values are optional, default values are used for values
+ * which are not provided.
+ */
+export interface SmtpOptions {
+    /**
+     * SMTP server host. Default: smtp.postmarkapp.com.
+     */
+    host?: string;
+
+    /**
+     * SMTP server port. Default: 587.
+     */
+    port?: number;
+
+    /**
+     * Use TLS from the start of the connection, usually on port 465. When disabled, connection is upgraded with STARTTLS.
+     * Default: false.
+     */
+    secure?: boolean;
+
+    /**
+     * Fail when server doesn't offer STARTTLS, instead of sending credentials and messages unencrypted. Default: true.
+     */
+    requireTLS?: boolean;
+
+    /**
+     * TLS options, for example certificate authorities trusted when connecting to a local SMTP server.
+     */
+    tls?: tls.ConnectionOptions;
+
+    /**
+     * Time in milliseconds the server has to respond to each command. Default: 30000.
+     */
+    timeout?: number;
+
+    /**
+     * Host name sent with EHLO command. Default: host name of this machine.
+     */
+    name?: string;
+}
+
+/**
+ * Describes when messages sent with sendEmail are sent over SMTP instead of the HTTP API. All values are optional,
+ * default values are used for values which are not provided.
+ */
+export interface FailoverPolicy {
+    /**
+     * System error codes of network errors after which message is sent over SMTP.
+     * Default: connection error codes of retry policy, for errors which happen before the request reaches the API.
+     */
+    failoverErrorCodes?: string[];
+
+    /**
+     * Send message over SMTP after any network error, including timeouts and reset connections.
+     * The API may have accepted the message before such errors, so the message can be delivered twice. Default: false.
+     */
+    failoverOnNetworkError?: boolean;
+
+    /**
+     * HTTP response statuses after which message is sent over SMTP. Default: 503.
+     * The API may have accepted the message before other 5xx responses, so adding them can deliver messages twice.
+     */
+    failoverStatusCodes?: number[];
+
+    /**
+     * Time in milliseconds messages are sent directly over SMTP after a failover, before the API is tried again.
+     * Default: 60000.
+     */
+    cooldown?: number;
+}
+
+/**
+ * SMTP connection and failover policy used when the HTTP API is unavailable.
+ */
+export interface SmtpFallbackOptions extends SmtpOptions {
+    failoverPolicy?: FailoverPolicy;
+}
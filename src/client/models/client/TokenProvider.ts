@@ -0,0 +1,7 @@
+/**
+ * Function returning API token, for example from a secrets manager. Used instead of a static token,
+ * so that tokens can be rotated without creating new clients.
+ */
+export interface TokenProvider {
+    (): (string | Promise<string>);
+}
@@ -0,0 +1,46 @@
+import { ClientOptions } from "./ClientOptions";
+import { ConnectionOptions } from "./ConnectionOptions";
+import { Hash } from "./SupportingTypes";
+
+/**
+ * Describes a single HTTP request that a [[Transport]] needs to execute.
+ */
+export interface TransportRequest {
+    method: ClientOptions.HttpMethod;
+    url: string;
+    headers: Hash<string>;
+    queryParameters: object;
+    body: (null | object);
+
+    /**
+     * Request timeout in milliseconds.
+     */
+    timeout: number;
+
+    /**
+     * Signal used to cancel the request. Transport should abort the request and reject, when signal is aborted.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Proxy, certificate authority and agent options the transport should use to connect.
+     */
+    connection?: ConnectionOptions;
+}
+
+/**
+ * Describes HTTP response returned by a [[Transport]]. Body is the parsed JSON response, when response is JSON.
+ */
+export interface TransportResponse {
+    statusCode: number;
+    headers: Hash<string>;
+    body: any;
+}
+
+/**
+ * Transport is responsible for executing HTTP requests built by clients.
+ * Custom transports can be provided with client options, to use a different HTTP library or to avoid network access.
+ */
+export interface Transport {
+    request(request: TransportRequest): Promise<TransportResponse>;
+}
@@ -2,16 +2,40 @@ export * from './client/ClientOptions';
 export * from './client/Callback';
 export * from './client/DefaultResponse';
 export * from './client/FilteringParameters';
+export * from './client/Transport';
+export * from './client/ConnectionOptions';
+export * from './client/RetryPolicy';
+export * from './client/RateLimitOptions';
+export * from './client/BatchOptions';
+export * from './client/Middleware';
+export * from './client/RequestOptions';
+export * from './client/TokenProvider';
+export * from './client/ErrorCode';
+export * from './client/ApiResponse';
+export * from './client/Logging';
+export * from './client/Instrumentation';
+export * from './client/Sandbox';
+export * from './client/Fixture';
+export * from './client/MockServer';
+export * from './client/Smtp';
+export * from './client/MockSmtpServer';
+export * from './client/Nodemailer';
 export * from './bounces/Bounce';
 export * from './bounces/BounceFilteringParameters';
 export * from './message/Message';
 export * from './message/SupportingTypes'
+export * from './message/BatchResult';
+export * from './message/Validation';
+export * from './message/AttachmentOptions';
+export * from './message/Address';
+export * from './message/MimeOptions';
 export * from './messages/OutboundMessage';
 export * from './messages/OutboundMessageOpen';
 export * from './messages/OutboundMessageClick';
 export * from './messages/InboundMessage';
 export * from './messages/MessageFilteringParameters'
 export * from './templates/Template';
+export * from './templates/TemplateRenderOptions';
 export * from './server/Server';
 export * from './server/Servers';
 export * from './domains/Domain';
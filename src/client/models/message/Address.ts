@@ -0,0 +1,22 @@
+/**
+ * Email address with optional display name. [[Recipient]] objects returned by the API can be used as well.
+ */
+export interface MailboxAddress {
+    Email: string;
+    Name?: string;
+}
+
+/**
+ * Single address, either a string like "John Smith <john@example.com>" or an object with email address and name.
+ */
+export type Address = (string | MailboxAddress);
+
+/**
+ * One or more addresses. Strings can contain comma separated address lists.
+ */
+export type Addresses = (Address | Address[]);
+
+/**
+ * Fields of messages and templated messages containing addresses.
+ */
+export type AddressField = ('From' | 'To' | 'Cc' | 'Bcc' | 'ReplyTo');
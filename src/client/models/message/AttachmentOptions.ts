@@ -0,0 +1,25 @@
+/**
+ * Options used when attachment is created with [[AttachmentFactory]].
+ */
+export interface AttachmentOptions {
+    /**
+     * Attachment file name. Defaults to the name of the file attachment is created from.
+     */
+    name?: string;
+
+    /**
+     * MIME type of attachment. When not provided, it is detected from content or file extension.
+     */
+    contentType?: string;
+
+    /**
+     * Embed attachment in HTML body. Inline attachments get a content ID, which can be referenced with cid: URLs.
+     */
+    inline?: boolean;
+
+    /**
+     * Content ID of inline attachment, for example cid:logo.png. Content ID without cid: prefix is prefixed with it.
+     * Defaults to cid: followed by attachment name.
+     */
+    contentId?: string;
+}
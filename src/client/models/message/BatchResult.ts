@@ -0,0 +1,92 @@
+import { MessageSendingResponse } from "./Message";
+import { PostmarkError } from "../client/Errors";
+
+/**
+ * Message sent in a batch, together with the API response for it.
+ */
+export interface BatchEntry<T> {
+    /**
+     * Position of the message in the sent batch.
+     */
+    index: number;
+    message: T;
+    response: MessageSendingResponse;
+
+    /**
+     * Error the request containing this message failed with, when the message could not be sent.
+     */
+    error?: PostmarkError;
+}
+
+/**
+ * Result of sending a batch of messages. Each message is paired with its response,
+ * so that failed messages can be inspected and sent again.
+ */
+export class BatchResult<T> {
+    public readonly entries: BatchEntry<T>[];
+    private readonly resend?: (messages: T[]) => Promise<BatchResult<T>>;
+
+    /**
+     * @param messages - Messages sent in the batch.
+     * @param responses - API responses, in the same order as messages.
+     * @param resend - Function sending messages again, used to resend failed messages.
+     * @param errors - Errors of messages which could not be sent, in the same order as messages.
+     */
+    constructor(messages: T[], responses: MessageSendingResponse[], resend?: (messages: T[]) => Promise<BatchResult<T>>,
+        errors: Array<PostmarkError | undefined> = []) {
+        this.entries = messages.map((message, index) => {
+            const entry: BatchEntry<T> = { index: index, message: message, response: responses[index] };
+            if (errors[index] !== undefined) {
+                entry.error = errors[index];
+            }
+            return entry;
+        });
+        this.resend = resend;
+    }
+
+    /**
+     * Messages accepted by the API.
+     */
+    public get succeeded(): BatchEntry<T>[] {
+        return this.entries.filter(entry => this.isAccepted(entry));
+    }
+
+    /**
+     * Messages rejected by the API, or not sent because their request failed, with response describing the error.
+     */
+    public get failed(): BatchEntry<T>[] {
+        return this.entries.filter(entry => !this.isAccepted(entry));
+    }
+
+    public get hasFailures(): boolean {
+        return this.failed.length > 0;
+    }
+
+    /**
+     * Send failed messages again.
+     *
+     * @returns A promise that will complete with a result of the whole batch, in which responses of failed messages
+     * are replaced with responses received when messages were sent again.
+     */
+    public resendFailed(): Promise<BatchResult<T>> {
+        const failed = this.failed;
+        if (failed.length === 0 || this.resend === undefined) {
+            return Promise.resolve(this);
+        }
+
+        return this.resend(failed.map(entry => entry.message)).then(resent => {
+            const responses = this.entries.map(entry => entry.response);
+            const errors = this.entries.map(entry => entry.error);
+            failed.forEach((entry, index) => {
+                responses[entry.index] = resent.entries[index].response;
+                errors[entry.index] = resent.entries[index].error;
+            });
+
+            return new BatchResult(this.entries.map(entry => entry.message), responses, this.resend, errors);
+        });
+    }
+
+    private isAccepted(entry: BatchEntry<T>): boolean {
+        return entry.error === undefined && entry.response !== undefined && entry.response.ErrorCode === 0;
+    }
+}
@@ -1,10 +1,11 @@
 import { Hash } from "../client/SupportingTypes"
 import { LinkTrackingOptions, Header, Attachment } from "../message/SupportingTypes";
 import { DefaultResponse } from "../client/DefaultResponse";
+import { Address, Addresses } from "../message/Address";
 
 export class Message {
-    constructor(From: string, Subject: string, HtmlBody?: string, TextBody?: string,
-        To?: string, Cc?: string, Bcc?: string, ReplyTo?: string, Tag?: string,
+    constructor(From: Address, Subject: string, HtmlBody?: string, TextBody?: string,
+        To?: Addresses, Cc?: Addresses, Bcc?: Addresses, ReplyTo?: Addresses, Tag?: string,
         TrackOpens?: boolean, TrackLinks?: LinkTrackingOptions, Headers?: Header[],
         Attachments?: Attachment[], Metadata?: Hash<string>) {
 
@@ -24,12 +25,12 @@ export class Message {
         this.Metadata = Metadata;
     }
 
-    From: string;
-    To?: string;
-    Cc?: string;
-    Bcc?: string;
+    From: Address;
+    To?: Addresses;
+    Cc?: Addresses;
+    Bcc?: Addresses;
     Subject: string;
-    ReplyTo?: string;
+    ReplyTo?: Addresses;
     HtmlBody?: string;
     TextBody?: string;
     Tag?: string;
@@ -0,0 +1,25 @@
+/**
+ * Options used when MIME document is generated with [[MimeGenerator]].
+ */
+export interface MimeOptions {
+    /**
+     * Value of Date header. Default: current date.
+     */
+    date?: Date;
+
+    /**
+     * Value of Message-ID header, for example <1234@example.com>. Default: random ID at sender domain.
+     */
+    messageId?: string;
+
+    /**
+     * Include Bcc header, which is normally left out of sent messages, but is useful when messages are archived. Default: false.
+     */
+    includeBcc?: boolean;
+
+    /**
+     * Include Tag, Metadata, TrackOpens and TrackLinks as X-PM-* headers, which the API reads from messages sent over SMTP.
+     * Default: false.
+     */
+    postmarkHeaders?: boolean;
+}
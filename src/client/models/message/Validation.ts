@@ -0,0 +1,11 @@
+/**
+ * Problem found in a single message field by [[MessageValidator]].
+ */
+export interface FieldError {
+    /**
+     * Path of the invalid field, for example To, Attachments[0].Name or Metadata.customer-id.
+     * Fields of messages in a batch are prefixed with message position, for example [2].To.
+     */
+    field: string;
+    message: string;
+}
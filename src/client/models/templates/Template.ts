@@ -1,4 +1,6 @@
 import { Attachment, Header, LinkTrackingOptions } from "../message/SupportingTypes";
+import { Address, Addresses } from "../message/Address";
+import { Hash } from "../client/SupportingTypes";
 
 export class UpdateTemplateRequest {
     constructor(Name?: string, Subject?: string, HtmlBody?: string, TextBody?: string, Alias?: string | null) {
@@ -56,9 +58,15 @@ export interface Templates {
     ]
 }
 
+export interface ValidationError {
+    Message: string;
+    Line: number;
+    CharacterPosition: number;
+}
+
 export interface ValidationSection {
     ContentIsValid: boolean;
-    ValidationErrors: object,
+    ValidationErrors: ValidationError[],
     RenderedContent: string;
 }
 
@@ -71,10 +79,10 @@ export interface TemplateValidation {
 }
 
 export class TemplatedMessage {
-    constructor(from: string, templateIdOrAlias: (number | string),
-        templateModel: object, to?: string, cc?: string, bcc?: string,
-        replyTo?: string, tag?: string, trackOpens?: boolean,
-        trackLinks?: LinkTrackingOptions, headers?: Header[], attachments?: Attachment[]) {
+    constructor(from: Address, templateIdOrAlias: (number | string),
+        templateModel: object, to?: Addresses, cc?: Addresses, bcc?: Addresses,
+        replyTo?: Addresses, tag?: string, trackOpens?: boolean,
+        trackLinks?: LinkTrackingOptions, headers?: Header[], attachments?: Attachment[], metadata?: Hash<string>) {
         this.From = from;
         this.TemplateModel = templateModel;
         if (typeof templateIdOrAlias === 'number') {
@@ -91,19 +99,28 @@ export class TemplatedMessage {
         this.TrackLinks = trackLinks;
         this.Headers = headers;
         this.Attachments = attachments;
+        this.Metadata = metadata;
     }
     TemplateId?: number;
     TemplateAlias?: string;
     TemplateModel?: object;
     InlineCss?: boolean;
-    From: string;
-    To?: string;
-    Cc?: string;
-    Bcc?: string;
-    ReplyTo?: string;
+    From: Address;
+    To?: Addresses;
+    Cc?: Addresses;
+    Bcc?: Addresses;
+    ReplyTo?: Addresses;
     Tag?: string;
     TrackOpens?: boolean;
     TrackLinks?: LinkTrackingOptions;
     Headers?: Header[];
     Attachments?: Attachment[];
-}
\ No newline at end of file
+    Metadata?: Hash<string>;
+}
+
+/**
+ * Request body of a batch of templated messages.
+ */
+export interface TemplatedMessageBatch {
+    Messages: TemplatedMessage[];
+}
@@ -0,0 +1,10 @@
+/**
+ * Options of [[TemplateRenderer]].
+ */
+export interface TemplateRenderOptions {
+    /**
+     * Treat variables missing from the model as errors, which make content invalid.
+     * By default missing variables are reported in validation errors, but content is still valid. Default: false.
+     */
+    strict?: boolean;
+}
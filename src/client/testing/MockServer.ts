@@ -0,0 +1,623 @@
+import * as http from 'http';
+import * as net from 'net';
+import * as url from 'url';
+
+import {
+    ClientOptions, CreateDomainRequest, CreateServerRequest, CreateSignatureRequest, CreateTemplateRequest, DomainDetails, ErrorCode,
+    LinkTrackingOptions, Message, MessageSendingResponse, MockServerOptions, MockServerState, OutboundMessage, OutboundMessageDetails,
+    SandboxMessage, Server, SignatureDetails, Template, TemplatedMessage, TemplatedMessageBatch, TemplateValidationOptions,
+    UpdateDomainRequest, UpdateServerRequest, UpdateSignatureRequest, UpdateTemplateRequest
+} from "../models";
+import { Hash } from "../models/client/SupportingTypes";
+import { SandboxTransport } from "../transport/SandboxTransport";
+import { AddressList } from "../AddressList";
+import { TemplateRenderer } from "../TemplateRenderer";
+import { MimeGenerator } from "../MimeGenerator";
+
+interface MockRequest {
+    method: string;
+    path: string;
+    query: Hash<string>;
+    body: (null | object);
+}
+
+interface MockResponse {
+    statusCode: number;
+    body: object;
+}
+
+interface MockRoute {
+    method: ClientOptions.HttpMethod;
+    pattern: RegExp;
+    tokenHeader: ClientOptions.DefaultHeaderNames;
+    handle(parameters: string[], request: MockRequest): (MockResponse | Promise<MockResponse>);
+}
+
+/**
+ * HTTP server implementing the API endpoints used by clients, with in-memory state.
+ * Sent messages are validated the same way [[SandboxTransport]] validates them, and kept in the outbox.
+ * Invalid requests are rejected with the same HTTP statuses and error codes the API uses.
+ *
+ * @example
+ * const mockServer = new MockServer();
+ * before(() => mockServer.start());
+ * after(() => mockServer.stop());
+ *
+ * it('sends email', async () => {
+ *     const client = new ServerClient('token', mockServer.getClientOptions());
+ *     await client.sendEmail(message);
+ *     expect(mockServer.outbox.length).to.equal(1);
+ * });
+ */
+export class MockServer {
+    /**
+     * Server fields which can be changed with create and update requests.
+     */
+    private static ServerFields: Array<keyof UpdateServerRequest> = ['Name', 'Color', 'SmtpApiActivated', 'RawEmailEnabled', 'InboundHookUrl',
+        'BounceHookUrl', 'OpenHookUrl', 'DeliveryHookUrl', 'ClickHookUrl', 'PostFirstOpenOnly', 'InboundSpamThreshold',
+        'TrackOpens', 'TrackLinks', 'IncludeBounceContentInHook', 'EnableSmtpApiErrorHooks'];
+
+    public state: MockServerState;
+    private readonly options: MockServerOptions;
+    private readonly routes: MockRoute[];
+    private readonly sockets: net.Socket[] = [];
+    private sandbox: SandboxTransport;
+    private server: (http.Server | null) = null;
+    private nextId: number = 1;
+
+    constructor(options: MockServerOptions = {}) {
+        this.options = { host: '127.0.0.1', port: 0, ...options };
+        this.sandbox = new SandboxTransport(this.options.sandbox);
+        this.state = this.createState();
+        this.routes = this.createRoutes();
+    }
+
+    /**
+     * Messages accepted by the server, in the order they were sent.
+     */
+    public get outbox(): SandboxMessage[] {
+        return this.sandbox.outbox;
+    }
+
+    /**
+     * URL the server listens on, for example http://127.0.0.1:51234. Available once the server is started.
+     */
+    public get url(): string {
+        const address = (this.server !== null) ? this.server.address() : null;
+        if (address === null || typeof address === 'string') {
+            throw new Error('Mock server is not started.');
+        }
+
+        return `http://${this.options.host}:${address.port}`;
+    }
+
+    /**
+     * Client options which make a client send requests to this server.
+     */
+    public getClientOptions(): ClientOptions.Configuration {
+        return { useHttps: false, requestHost: <string>this.options.host, timeout: 10, baseUrl: this.url };
+    }
+
+    /**
+     * Start listening for requests.
+     *
+     * @returns A promise that will complete with the server URL once the server is listening.
+     */
+    public start(): Promise<string> {
+        if (this.server !== null) {
+            return Promise.resolve(this.url);
+        }
+
+        return new Promise((resolve, reject) => {
+            const server = http.createServer((request, response) => this.handleRequest(request, response));
+
+            server.on('connection', (socket: net.Socket) => {
+                this.sockets.push(socket);
+                socket.on('close', () => this.sockets.splice(this.sockets.indexOf(socket), 1));
+            });
+            server.once('error', reject);
+            server.listen(this.options.port, this.options.host, () => {
+                this.server = server;
+                resolve(this.url);
+            });
+        });
+    }
+
+    /**
+     * Stop listening for requests and close open connections. State is kept, so that it can still be inspected.
+     *
+     * @returns A promise that will complete once the server is closed.
+     */
+    public stop(): Promise<void> {
+        const server = this.server;
+        if (server === null) {
+            return Promise.resolve();
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            server.close((error?: Error) => error ? reject(error) : resolve());
+            this.sockets.forEach(socket => socket.destroy());
+            this.server = null;
+        });
+    }
+
+    /**
+     * Remove all messages from the outbox and restore initial state.
+     */
+    public reset(): void {
+        this.sandbox.clear();
+        this.nextId = 1;
+        this.state = this.createState();
+    }
+
+    private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+        const chunks: Buffer[] = [];
+
+        request.on('data', (chunk: Buffer) => chunks.push(chunk));
+        request.on('end', () => {
+            const requestUrl = url.parse(request.url || '/', true);
+            const payload = Buffer.concat(chunks).toString('utf8');
+            let body: (null | object) = null;
+
+            try {
+                body = (payload.trim() !== '') ? JSON.parse(payload) : null;
+            } catch (error) {
+                return this.sendResponse(response, this.error(ErrorCode.InvalidJson, 'Provided request body is not valid JSON.'));
+            }
+
+            const mockRequest: MockRequest = {
+                method: request.method || 'GET',
+                path: (requestUrl.pathname || '/').replace(/\/+$/, '') || '/',
+                query: <Hash<string>>requestUrl.query,
+                body: body
+            };
+
+            Promise.resolve()
+                .then(() => this.route(mockRequest, request.headers))
+                .then(mockResponse => this.sendResponse(response, mockResponse),
+                    error => this.sendResponse(response, { statusCode: 500, body: { ErrorCode: 0, Message: error.message } }));
+        });
+    }
+
+    private route(request: MockRequest, headers: http.IncomingHttpHeaders): (MockResponse | Promise<MockResponse>) {
+        for (const route of this.routes) {
+            const match = route.pattern.exec(request.path);
+
+            if (route.method === request.method && match !== null) {
+                const token = headers[route.tokenHeader.toLowerCase()];
+                const expectedToken = (route.tokenHeader === ClientOptions.DefaultHeaderNames.SERVER_TOKEN) ?
+                    this.options.serverToken : this.options.accountToken;
+
+                if (typeof token !== 'string' || token === '' || (expectedToken !== undefined && token !== expectedToken)) {
+                    const tokenType = (route.tokenHeader === ClientOptions.DefaultHeaderNames.SERVER_TOKEN) ? 'Server' : 'Account';
+                    return { statusCode: 401, body: { ErrorCode: ErrorCode.BadOrMissingApiToken, Message: `Request does not contain a valid ${tokenType} token.` } };
+                }
+
+                return route.handle(match.slice(1), request);
+            }
+        }
+
+        return { statusCode: 404, body: { ErrorCode: 0, Message: `Mock server doesn't support ${request.method} ${request.path}.` } };
+    }
+
+    private sendResponse(response: http.ServerResponse, mockResponse: MockResponse): void {
+        const payload = JSON.stringify(mockResponse.body);
+
+        response.writeHead(mockResponse.statusCode, {
+            'Content-Type': 'application/json; charset=utf-8',
+            'Content-Length': Buffer.byteLength(payload).toString()
+        });
+        response.end(payload);
+    }
+
+    private createRoutes(): MockRoute[] {
+        const GET = ClientOptions.HttpMethod.GET;
+        const POST = ClientOptions.HttpMethod.POST;
+        const PUT = ClientOptions.HttpMethod.PUT;
+        const DELETE = ClientOptions.HttpMethod.DELETE;
+        const server = (method: ClientOptions.HttpMethod, pattern: RegExp, handle: MockRoute['handle']): MockRoute =>
+            ({ method: method, pattern: pattern, tokenHeader: ClientOptions.DefaultHeaderNames.SERVER_TOKEN, handle: handle });
+        const account = (method: ClientOptions.HttpMethod, pattern: RegExp, handle: MockRoute['handle']): MockRoute =>
+            ({ method: method, pattern: pattern, tokenHeader: ClientOptions.DefaultHeaderNames.ACCOUNT_TOKEN, handle: handle });
+
+        return [
+            server(POST, /^\/email$/, (parameters, request) => this.sendEmail(request)),
+            server(POST, /^\/email\/batch$/, (parameters, request) => this.sendEmail(request)),
+            server(POST, /^\/email\/withTemplate$/, (parameters, request) => this.sendEmailWithTemplate(request)),
+            server(POST, /^\/email\/batchWithTemplates$/, (parameters, request) => this.sendEmailBatchWithTemplates(request)),
+
+            server(GET, /^\/templates$/, (parameters, request) => this.list(request, ErrorCode.TemplateQueryException, 'Templates', this.state.templates.map(template => ({
+                Active: template.Active, TemplateId: template.TemplateId, Name: template.Name, Alias: template.Alias
+            })))),
+            server(GET, /^\/templates\/([^\/]+)$/, parameters => this.withTemplate(parameters[0], template => this.ok(template))),
+            server(POST, /^\/templates$/, (parameters, request) => this.createTemplate(this.bodyOf<CreateTemplateRequest>(request))),
+            server(POST, /^\/templates\/validate$/, (parameters, request) => this.ok(new TemplateRenderer().render(this.bodyOf<TemplateValidationOptions>(request)))),
+            server(PUT, /^\/templates\/([^\/]+)$/, (parameters, request) =>
+                this.withTemplate(parameters[0], template => this.ok(Object.assign(template, this.pick(this.bodyOf<UpdateTemplateRequest>(request),
+                    ['Name', 'Subject', 'HtmlBody', 'TextBody', 'Alias']))))),
+            server(DELETE, /^\/templates\/([^\/]+)$/, parameters => this.withTemplate(parameters[0], template => {
+                this.state.templates.splice(this.state.templates.indexOf(template), 1);
+                return this.ok({ ErrorCode: 0, Message: `Template ${parameters[0]} removed.` });
+            })),
+
+            server(GET, /^\/deliveryStats$/, () => this.ok({
+                InactiveMails: this.state.bounces.filter(bounce => bounce.Inactive).length,
+                Bounces: [{ Name: 'All', Count: this.state.bounces.length }]
+            })),
+            server(GET, /^\/bounces$/, (parameters, request) => this.list(request, ErrorCode.BounceQueryException, 'Bounces', this.state.bounces.filter(bounce =>
+                (request.query.type === undefined || bounce.Type === request.query.type) &&
+                (request.query.inactive === undefined || String(bounce.Inactive) === request.query.inactive) &&
+                (request.query.emailFilter === undefined || bounce.Email.indexOf(request.query.emailFilter) !== -1) &&
+                (request.query.tag === undefined || bounce.Tag === request.query.tag)))),
+            server(GET, /^\/bounces\/tags$/, () => this.ok(this.state.bounces
+                .map(bounce => bounce.Tag).filter((tag, index, tags) => tag !== undefined && tags.indexOf(tag) === index))),
+            server(GET, /^\/bounces\/(\d+)$/, parameters => this.withEntity(this.state.bounces, parameters[0], ErrorCode.BounceNotFound,
+                bounce => this.ok(bounce))),
+            server(GET, /^\/bounces\/(\d+)\/dump$/, parameters => this.withEntity(this.state.bounces, parameters[0], ErrorCode.BounceNotFound,
+                bounce => this.ok({ Body: bounce.Content || '' }))),
+            server(PUT, /^\/bounces\/(\d+)\/activate$/, parameters => this.withEntity(this.state.bounces, parameters[0], ErrorCode.BounceNotFound,
+                bounce => this.ok({ Message: 'OK', Bounce: Object.assign(bounce, { Inactive: false, CanActivate: false }) }))),
+
+            server(GET, /^\/messages\/outbound$/, (parameters, request) => this.list(request, ErrorCode.MessagesQueryException, 'Messages', this.outbox
+                .map(message => this.toOutboundMessage(message))
+                .filter(message =>
+                    (request.query.recipient === undefined || message.Recipients.indexOf(request.query.recipient) !== -1) &&
+                    (request.query.tag === undefined || message.Tag === request.query.tag) &&
+                    (request.query.subject === undefined || message.Subject === request.query.subject)))),
+            server(GET, /^\/messages\/outbound\/([^\/]+)(?:\/details)?$/, parameters => this.withMessage(parameters[0], message => this.ok(message))),
+            server(GET, /^\/messages\/outbound\/([^\/]+)\/dump$/, parameters => this.withMessage(parameters[0], message => this.ok({
+                Body: new MimeGenerator({ date: new Date(message.ReceivedAt), messageId: `<${message.MessageID}@mtasv.net>` }).generate(
+                    new Message(message.From, message.Subject, message.HtmlBody, message.TextBody, message.To, message.Cc, undefined,
+                        undefined, message.Tag, undefined, undefined, undefined, message.Attachments))
+            }))),
+
+            server(GET, /^\/server$/, () => this.ok(this.state.server)),
+            server(PUT, /^\/server$/, (parameters, request) =>
+                this.ok(Object.assign(this.state.server, this.pick(this.bodyOf<UpdateServerRequest>(request), MockServer.ServerFields)))),
+
+            account(GET, /^\/servers$/, (parameters, request) => this.list(request, ErrorCode.ServerQueryException, 'Servers', this.state.servers)),
+            account(GET, /^\/servers\/(\d+)$/, parameters => this.withEntity(this.state.servers, parameters[0], ErrorCode.ServerNotFound,
+                server => this.ok(server))),
+            account(POST, /^\/servers$/, (parameters, request) => this.createServer(this.bodyOf<CreateServerRequest>(request))),
+            account(PUT, /^\/servers\/(\d+)$/, (parameters, request) => this.withEntity(this.state.servers, parameters[0], ErrorCode.ServerNotFound,
+                server => this.ok(Object.assign(server, this.pick(this.bodyOf<UpdateServerRequest>(request), MockServer.ServerFields))))),
+            account(DELETE, /^\/servers\/(\d+)$/, parameters => this.withEntity(this.state.servers, parameters[0], ErrorCode.ServerNotFound,
+                server => this.remove(this.state.servers, server, `Server ${server.ID} removed.`))),
+
+            account(GET, /^\/domains$/, (parameters, request) => this.list(request, ErrorCode.SenderSignatureQueryException, 'Domains', this.state.domains.map(domain =>
+                this.pick(domain, ['ID', 'Name', 'SpfVerified', 'DKIMVerified', 'WeakDKIM', 'ReturnPathDomainVerified'])))),
+            account(GET, /^\/domains\/(\d+)$/, parameters => this.withEntity(this.state.domains, parameters[0], ErrorCode.DomainNotFound,
+                domain => this.ok(domain))),
+            account(POST, /^\/domains$/, (parameters, request) => this.createDomain(this.bodyOf<CreateDomainRequest>(request))),
+            account(PUT, /^\/domains\/(\d+)$/, (parameters, request) => this.withEntity(this.state.domains, parameters[0], ErrorCode.DomainNotFound,
+                domain => this.ok(Object.assign(domain, this.pick(this.bodyOf<UpdateDomainRequest>(request), ['ReturnPathDomain']))))),
+            account(DELETE, /^\/domains\/(\d+)$/, parameters => this.withEntity(this.state.domains, parameters[0], ErrorCode.DomainNotFound,
+                domain => this.remove(this.state.domains, domain, `Domain ${domain.Name} removed.`))),
+            account(PUT, /^\/domains\/(\d+)\/(verifyDKIM|verifyReturnPath|verifySPF|rotateDKIM)$/, parameters =>
+                this.withEntity(this.state.domains, parameters[0], ErrorCode.DomainNotFound, domain => this.ok(this.verifyDomain(domain, parameters[1])))),
+
+            account(GET, /^\/senders$/, (parameters, request) => this.list(request, ErrorCode.SenderSignatureQueryException, 'SenderSignatures', this.state.senders.map(sender =>
+                this.pick(sender, ['ID', 'Name', 'Confirmed', 'Domain', 'EmailAddress', 'ReplyToEmailAddress'])))),
+            account(GET, /^\/senders\/(\d+)$/, parameters => this.withEntity(this.state.senders, parameters[0], ErrorCode.SenderSignatureNotFoundById,
+                sender => this.ok(sender))),
+            account(POST, /^\/senders$/, (parameters, request) => this.createSender(this.bodyOf<CreateSignatureRequest>(request))),
+            account(PUT, /^\/senders\/(\d+)$/, (parameters, request) => this.withEntity(this.state.senders, parameters[0], ErrorCode.SenderSignatureNotFoundById,
+                sender => this.ok(this.updateSender(sender, this.bodyOf<UpdateSignatureRequest>(request))))),
+            account(DELETE, /^\/senders\/(\d+)$/, parameters => this.withEntity(this.state.senders, parameters[0], ErrorCode.SenderSignatureNotFoundById,
+                sender => this.remove(this.state.senders, sender, `Signature ${sender.ID} removed.`))),
+            account(POST, /^\/senders\/(\d+)\/resend$/, parameters => this.withEntity(this.state.senders, parameters[0], ErrorCode.SenderSignatureNotFoundById,
+                () => this.ok({ ErrorCode: 0, Message: 'Confirmation email for Sender Signature was re-sent.' }))),
+            account(POST, /^\/senders\/(\d+)\/verifySpf$/, parameters => this.withEntity(this.state.senders, parameters[0], ErrorCode.SenderSignatureNotFoundById,
+                sender => this.ok(Object.assign(sender, { SpfVerified: true })))),
+            account(POST, /^\/senders\/(\d+)\/requestNewDkim$/, parameters => this.withEntity(this.state.senders, parameters[0], ErrorCode.SenderSignatureNotFoundById,
+                () => this.ok({ ErrorCode: 0, Message: 'New DKIM key was requested.' })))
+        ];
+    }
+
+    private sendEmail(request: MockRequest): Promise<MockResponse> {
+        return this.sandbox.request({
+            method: ClientOptions.HttpMethod.POST,
+            url: request.path,
+            headers: {},
+            queryParameters: {},
+            body: request.body,
+            timeout: 0
+        }).then(response => ({ statusCode: response.statusCode, body: response.body }));
+    }
+
+    private sendEmailWithTemplate(request: MockRequest): (MockResponse | Promise<MockResponse>) {
+        const message = <TemplatedMessage>request.body;
+        return this.isMissingTemplate(message) ? this.templateNotFound(this.templateIdOrAlias(message)) : this.sendEmail(request);
+    }
+
+    /**
+     * Messages using templates which don't exist are rejected one by one, other messages are sent as a batch.
+     */
+    private sendEmailBatchWithTemplates(request: MockRequest): Promise<MockResponse> {
+        const batch = this.bodyOf<TemplatedMessageBatch>(request);
+        const messages: TemplatedMessage[] = Array.isArray(batch.Messages) ? batch.Messages : [];
+        const missing = messages.map(message => this.isMissingTemplate(message));
+        const sentBatch: TemplatedMessageBatch = { Messages: messages.filter((message, index) => !missing[index]) };
+
+        return this.sendEmail({ ...request, body: sentBatch }).then(response => {
+            if (response.statusCode !== 200) {
+                return response;
+            }
+
+            const results = (<MessageSendingResponse[]>response.body).slice();
+            return this.ok(messages.map((message, index) =>
+                missing[index] ? this.templateNotFound(this.templateIdOrAlias(message)).body : results.shift()));
+        });
+    }
+
+    private isMissingTemplate(message: (TemplatedMessage | null)): boolean {
+        if (message === null || typeof message !== 'object') {
+            return false;
+        }
+
+        const idOrAlias = this.templateIdOrAlias(message);
+        return idOrAlias !== undefined && this.findTemplate(idOrAlias) === undefined;
+    }
+
+    private templateIdOrAlias(message: TemplatedMessage): (string | number | undefined) {
+        return (message.TemplateId !== undefined) ? message.TemplateId : message.TemplateAlias;
+    }
+
+    private templateNotFound(idOrAlias: (string | number | undefined)): MockResponse {
+        return this.error(ErrorCode.TemplateNotFound, `The Template's 'TemplateId' or 'TemplateAlias' '${idOrAlias}' was not found.`);
+    }
+
+    private findTemplate(idOrAlias: (string | number | undefined)): (Template | undefined) {
+        if (idOrAlias === undefined) {
+            return undefined;
+        }
+
+        return this.state.templates.find(template => String(template.TemplateId) === String(idOrAlias) || template.Alias === idOrAlias);
+    }
+
+    private withTemplate(idOrAlias: string, handle: (template: Template) => MockResponse): MockResponse {
+        const template = this.findTemplate(decodeURIComponent(idOrAlias));
+        return (template !== undefined) ? handle(template) : this.templateNotFound(idOrAlias);
+    }
+
+    private createTemplate(body: CreateTemplateRequest): MockResponse {
+        if (!body.Name) {
+            return this.error(ErrorCode.RequiredTemplateFieldMissing, "The 'Name' field is required.");
+        }
+
+        if (body.Alias && this.findTemplate(body.Alias) !== undefined) {
+            return this.error(ErrorCode.InvalidTemplateField, `Template with alias '${body.Alias}' already exists.`);
+        }
+
+        const template: Template = {
+            TemplateId: this.nextId++,
+            Name: body.Name,
+            Subject: body.Subject,
+            HtmlBody: body.HtmlBody,
+            TextBody: body.TextBody,
+            Alias: body.Alias || null,
+            AssociatedServerId: this.state.server.ID,
+            Active: true
+        };
+        this.state.templates.push(template);
+
+        return this.ok(template);
+    }
+
+    private createServer(body: CreateServerRequest): MockResponse {
+        if (!body.Name) {
+            return this.error(ErrorCode.ServerNameMissing, 'Server name is missing.');
+        }
+
+        if (this.state.servers.some(server => server.Name === body.Name)) {
+            return this.error(ErrorCode.ServerNameAlreadyExists, 'This server name already exists.');
+        }
+
+        const server: Server = { ...this.createServerDetails(this.nextId++, body.Name), ...this.pick(body, MockServer.ServerFields) };
+        this.state.servers.push(server);
+
+        return this.ok(server);
+    }
+
+    private createDomain(body: CreateDomainRequest): MockResponse {
+        if (!body.Name) {
+            return this.error(ErrorCode.InvalidFieldsSupplied, "The 'Name' field is required.");
+        }
+
+        if (this.state.domains.some(domain => domain.Name === body.Name)) {
+            return this.error(ErrorCode.DomainAlreadyExists, 'This domain already exists.');
+        }
+
+        const domain: DomainDetails = this.createDomainDetails(this.nextId++, body.Name, body.ReturnPathDomain);
+        this.state.domains.push(domain);
+
+        return this.ok(domain);
+    }
+
+    private createSender(body: CreateSignatureRequest): MockResponse {
+        if (!body.FromEmail) {
+            return this.error(ErrorCode.InvalidFieldsSupplied, "The 'FromEmail' field is required.");
+        }
+
+        if (this.state.senders.some(sender => sender.EmailAddress === body.FromEmail)) {
+            return this.error(ErrorCode.SenderSignatureAlreadyExists, 'This signature already exists.');
+        }
+
+        const domainName = body.FromEmail.split('@')[1] || '';
+        const sender: SignatureDetails = {
+            ...this.createDomainDetails(this.nextId++, body.Name || body.FromEmail, body.ReturnPathDomain),
+            Domain: domainName,
+            EmailAddress: body.FromEmail,
+            ReplyToEmailAddress: body.ReplyToEmail || '',
+            Confirmed: false
+        };
+        this.state.senders.push(sender);
+
+        return this.ok(sender);
+    }
+
+    private updateSender(sender: SignatureDetails, body: UpdateSignatureRequest): SignatureDetails {
+        Object.assign(sender, this.pick(body, ['Name', 'ReturnPathDomain']));
+        return (body.ReplyToEmail !== undefined) ? Object.assign(sender, { ReplyToEmailAddress: body.ReplyToEmail }) : sender;
+    }
+
+    private verifyDomain(domain: DomainDetails, verification: string): DomainDetails {
+        switch (verification) {
+            case 'verifyDKIM':
+                return Object.assign(domain, { DKIMVerified: true });
+
+            case 'verifyReturnPath':
+                return Object.assign(domain, { ReturnPathDomainVerified: true });
+
+            case 'verifySPF':
+                return Object.assign(domain, { SpfVerified: true });
+
+            default:
+                return Object.assign(domain, { DKIMUpdateStatus: 'Pending' });
+        }
+    }
+
+    private withMessage(messageId: string, handle: (message: OutboundMessageDetails) => MockResponse): MockResponse {
+        const message = this.outbox.find(sentMessage => sentMessage.response.MessageID === messageId);
+        return (message !== undefined) ? handle(this.toOutboundMessage(message)) :
+            this.error(ErrorCode.MessageNotFound, `There is no message with ID '${messageId}'.`);
+    }
+
+    private toOutboundMessage(sentMessage: SandboxMessage): OutboundMessageDetails {
+        const message = sentMessage.message;
+        const templated = <TemplatedMessage>message;
+        const plain = <Message>message;
+        const template = this.findTemplate(this.templateIdOrAlias(templated));
+        const rendered = (template !== undefined) ? new TemplateRenderer().render(template, templated.TemplateModel || {}) : undefined;
+        const to = AddressList.parse(message.To);
+        const cc = AddressList.parse(message.Cc);
+        const bcc = AddressList.parse(message.Bcc);
+        const outboundMessage: OutboundMessage = {
+            MessageID: sentMessage.response.MessageID,
+            Tag: message.Tag,
+            To: to,
+            Cc: cc,
+            Bcc: bcc,
+            Recipients: [...to, ...cc, ...bcc].map(recipient => recipient.Email),
+            ReceivedAt: sentMessage.response.SubmittedAt,
+            From: AddressList.format(message.From),
+            Subject: (rendered !== undefined) ? rendered.Subject.RenderedContent : <string>plain.Subject,
+            Attachments: message.Attachments || [],
+            Status: 'Sent',
+            TrackOpens: message.TrackOpens || false,
+            TrackLinks: message.TrackLinks || LinkTrackingOptions.None,
+            Metadata: plain.Metadata || {}
+        };
+        const htmlBody = (rendered !== undefined) ? rendered.HtmlBody.RenderedContent : plain.HtmlBody;
+        const textBody = (rendered !== undefined) ? rendered.TextBody.RenderedContent : plain.TextBody;
+
+        return { ...outboundMessage, HtmlBody: htmlBody, TextBody: textBody, Body: htmlBody || textBody || '', MessageEvents: [] };
+    }
+
+    private withEntity<T extends { ID: number }>(entities: T[], id: string, errorCode: ErrorCode,
+        handle: (entity: T) => MockResponse): MockResponse {
+        const entity = entities.find(item => item.ID === Number(id));
+        return (entity !== undefined) ? handle(entity) : this.error(errorCode, `Entity with ID ${id} was not found.`);
+    }
+
+    private remove<T>(entities: T[], entity: T, message: string): MockResponse {
+        entities.splice(entities.indexOf(entity), 1);
+        return this.ok({ ErrorCode: 0, Message: message });
+    }
+
+    /**
+     * Paginate list of entities with count and offset from query parameters, the same way the API does.
+     */
+    private list<T>(request: MockRequest, queryErrorCode: ErrorCode, property: string, entities: T[]): MockResponse {
+        const count = (request.query.count !== undefined) ? Number(request.query.count) : 100;
+        const offset = (request.query.offset !== undefined) ? Number(request.query.offset) : 0;
+
+        if (isNaN(count) || count < 1 || count > 500) {
+            return this.error(queryErrorCode, "The 'count' parameter value must be between 1 and 500.");
+        }
+
+        if (isNaN(offset) || offset < 0) {
+            return this.error(queryErrorCode, "The 'offset' parameter value must not be negative.");
+        }
+
+        return this.ok({ TotalCount: entities.length, [property]: entities.slice(offset, offset + count) });
+    }
+
+    /**
+     * Copy fields which are set in source, so that fields missing in update requests are left unchanged.
+     */
+    private pick<T, K extends keyof T>(source: T, keys: K[]): Partial<Pick<T, K>> {
+        const result: Partial<Pick<T, K>> = {};
+        keys.filter(key => source[key] !== undefined).forEach(key => result[key] = source[key]);
+        return result;
+    }
+
+    /**
+     * Request body, or an empty object when request has no body.
+     */
+    private bodyOf<T extends object>(request: MockRequest): T {
+        return <T>(request.body || {});
+    }
+
+    private ok(body: object): MockResponse {
+        return { statusCode: 200, body: body };
+    }
+
+    private error(errorCode: ErrorCode, message: string): MockResponse {
+        return { statusCode: 422, body: { ErrorCode: errorCode, Message: message } };
+    }
+
+    private createState(): MockServerState {
+        return {
+            server: this.createServerDetails(this.nextId++, 'Mock Server'),
+            templates: [],
+            bounces: [],
+            servers: [],
+            domains: [],
+            senders: []
+        };
+    }
+
+    private createServerDetails(id: number, name: string): Server {
+        return {
+            ID: id,
+            Name: name,
+            ApiTokens: [this.options.serverToken || `server-token-${id}`],
+            ServerLink: `https://account.postmarkapp.com/servers/${id}/overview`,
+            Color: 'Purple',
+            SmtpApiActivated: true,
+            RawEmailEnabled: false,
+            InboundAddress: `inbound-${id}@inbound.postmarkapp.com`,
+            PostFirstOpenOnly: false,
+            InboundHash: `inbound-${id}`,
+            InboundSpamThreshold: 0,
+            TrackOpens: false,
+            TrackLinks: LinkTrackingOptions.None,
+            IncludeBounceContentInHook: false,
+            EnableSmtpApiErrorHooks: false
+        };
+    }
+
+    private createDomainDetails(id: number, name: string, returnPathDomain?: string): DomainDetails {
+        return {
+            ID: id,
+            Name: name,
+            SpfVerified: false,
+            DKIMVerified: false,
+            WeakDKIM: false,
+            ReturnPathDomainVerified: false,
+            SpfHost: name,
+            SpfTextValue: 'v=spf1 a mx include:spf.mtasv.net ~all',
+            DKIMHost: '',
+            DKIMTextValue: '',
+            DKIMPendingHost: `${id}pm._domainkey.${name}`,
+            DKIMPendingTextValue: 'k=rsa;p=MOCK',
+            DKIMRevokedHost: '',
+            DKIMRevokedTextValue: '',
+            SafeToRemoveRevokedKeyFromDNS: 'false',
+            DKIMUpdateStatus: 'Pending',
+            ReturnPathDomain: returnPathDomain || '',
+            ReturnPathDomainCNAMEValue: 'pm.mtasv.net'
+        };
+    }
+}
@@ -0,0 +1,312 @@
+import * as crypto from 'crypto';
+import * as net from 'net';
+import * as tls from 'tls';
+
+import { MockSmtpMessage, MockSmtpServerOptions, SmtpOptions } from "../models";
+
+/**
+ * State of a single SMTP session.
+ */
+interface MockSmtpSession {
+    socket: net.Socket;
+    secure: boolean;
+    authenticated: boolean;
+    username?: string;
+    loginUsername?: string;
+    authStep: ('username' | 'password' | null);
+    from: (string | null);
+    recipients: string[];
+    data: (string[] | null);
+}
+
+/**
+ * SMTP server standing in for the Postmark SMTP server in tests. Supports STARTTLS, AUTH PLAIN and AUTH LOGIN,
+ * and keeps received messages in memory instead of delivering them.
+ *
+ * @example
+ * const smtpServer = new MockSmtpServer({ serverToken: 'token' });
+ * await smtpServer.start();
+ *
+ * const client = new ServerClient('token', { ...clientOptions, smtpFallback: smtpServer.getSmtpOptions() });
+ * await client.sendEmail(message);
+ * expect(smtpServer.messages.length).to.equal(1);
+ */
+export class MockSmtpServer {
+    /**
+     * Messages accepted by the server, in the order they were sent.
+     */
+    public messages: MockSmtpMessage[] = [];
+    private readonly options: MockSmtpServerOptions;
+    private readonly sockets: net.Socket[] = [];
+    private server: (net.Server | null) = null;
+
+    constructor(options: MockSmtpServerOptions = {}) {
+        this.options = { host: '127.0.0.1', port: 0, ...options };
+    }
+
+    /**
+     * Port the server listens on. Available once the server is started.
+     */
+    public get port(): number {
+        const address = (this.server !== null) ? this.server.address() : null;
+        if (address === null || typeof address === 'string') {
+            throw new Error('Mock SMTP server is not started.');
+        }
+
+        return address.port;
+    }
+
+    /**
+     * SMTP options which make a client send messages to this server. Certificate used for STARTTLS is trusted.
+     */
+    public getSmtpOptions(): SmtpOptions {
+        const certificate = (this.options.tls !== undefined) ? this.options.tls.cert : undefined;
+        return { host: this.options.host, port: this.port, requireTLS: certificate !== undefined, tls: { ca: certificate }, timeout: 5000 };
+    }
+
+    /**
+     * Start listening for connections.
+     *
+     * @returns A promise that will complete with the port once the server is listening.
+     */
+    public start(): Promise<number> {
+        if (this.server !== null) {
+            return Promise.resolve(this.port);
+        }
+
+        return new Promise((resolve, reject) => {
+            const server = net.createServer(socket => this.handleConnection(socket));
+
+            server.once('error', reject);
+            server.listen(this.options.port, this.options.host, () => {
+                this.server = server;
+                resolve(this.port);
+            });
+        });
+    }
+
+    /**
+     * Stop listening for connections and close open connections. Received messages are kept, so that they can still be inspected.
+     *
+     * @returns A promise that will complete once the server is closed.
+     */
+    public stop(): Promise<void> {
+        const server = this.server;
+        if (server === null) {
+            return Promise.resolve();
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            server.close((error?: Error) => error ? reject(error) : resolve());
+            this.sockets.forEach(socket => socket.destroy());
+            this.server = null;
+        });
+    }
+
+    /**
+     * Remove all received messages.
+     */
+    public reset(): void {
+        this.messages = [];
+    }
+
+    private handleConnection(socket: net.Socket): void {
+        const session: MockSmtpSession = {
+            socket: socket, secure: false, authenticated: false, authStep: null, from: null, recipients: [], data: null
+        };
+
+        this.sockets.push(socket);
+        socket.on('close', () => this.sockets.splice(this.sockets.indexOf(socket), 1));
+        this.readLines(session, socket);
+        this.reply(session, '220 mock-smtp ESMTP ready');
+    }
+
+    private readLines(session: MockSmtpSession, socket: net.Socket): void {
+        let buffer = '';
+
+        socket.on('error', () => socket.destroy());
+        socket.on('data', (chunk: Buffer) => {
+            buffer += chunk.toString('utf8');
+
+            let index: number;
+            while (session.socket === socket && (index = buffer.indexOf('\r\n')) !== -1) {
+                const line = buffer.substring(0, index);
+                buffer = buffer.substring(index + 2);
+                this.handleLine(session, line);
+            }
+        });
+    }
+
+    private handleLine(session: MockSmtpSession, line: string): void {
+        if (session.data !== null) {
+            return this.handleDataLine(session, line);
+        }
+
+        if (session.authStep !== null) {
+            return this.handleLogin(session, Buffer.from(line, 'base64').toString('utf8'));
+        }
+
+        const separator = line.indexOf(' ');
+        const verb = ((separator === -1) ? line : line.substring(0, separator)).toUpperCase();
+        const argument = (separator === -1) ? '' : line.substring(separator + 1);
+
+        switch (verb) {
+            case 'EHLO':
+                return this.handleEhlo(session);
+            case 'HELO':
+            case 'NOOP':
+                return this.reply(session, '250 OK');
+            case 'STARTTLS':
+                return this.startTLS(session);
+            case 'AUTH':
+                return this.handleAuth(session, argument);
+            case 'MAIL':
+                return this.handleMail(session, argument);
+            case 'RCPT':
+                return this.handleRecipient(session, argument);
+            case 'DATA':
+                if (session.recipients.length === 0) {
+                    return this.reply(session, '503 5.5.1 No recipients specified');
+                }
+                session.data = [];
+                return this.reply(session, '354 End data with <CR><LF>.<CR><LF>');
+            case 'RSET':
+                session.from = null;
+                session.recipients = [];
+                return this.reply(session, '250 OK');
+            case 'QUIT':
+                this.reply(session, '221 Bye');
+                session.socket.end();
+                return;
+            default:
+                return this.reply(session, '502 5.5.2 Command not recognized');
+        }
+    }
+
+    /**
+     * Reply with supported extensions, STARTTLS is offered only when TLS options are provided and session is not secure yet.
+     */
+    private handleEhlo(session: MockSmtpSession): void {
+        const lines = ['mock-smtp Hello', 'AUTH PLAIN LOGIN', 'SIZE 10485760'];
+        if (this.options.tls !== undefined && !session.secure) {
+            lines.splice(1, 0, 'STARTTLS');
+        }
+
+        this.reply(session, lines.map((line, index) => `250${(index === lines.length - 1) ? ' ' : '-'}${line}`).join('\r\n'));
+    }
+
+    private startTLS(session: MockSmtpSession): void {
+        if (this.options.tls === undefined || session.secure) {
+            return this.reply(session, '454 4.7.0 TLS not available');
+        }
+
+        this.reply(session, '220 Ready to start TLS');
+        const secureSocket = new tls.TLSSocket(session.socket, { isServer: true, secureContext: tls.createSecureContext(this.options.tls) });
+
+        session.socket = secureSocket;
+        session.secure = true;
+        session.authenticated = false;
+        this.readLines(session, secureSocket);
+    }
+
+    private handleAuth(session: MockSmtpSession, argument: string): void {
+        const [mechanism, initialResponse] = argument.split(' ');
+
+        if (/^PLAIN$/i.test(mechanism) && initialResponse !== undefined) {
+            const [, username, password] = Buffer.from(initialResponse, 'base64').toString('utf8').split('\u0000');
+            return this.authenticate(session, username, password);
+        }
+
+        if (/^LOGIN$/i.test(mechanism)) {
+            session.authStep = 'username';
+            return this.reply(session, `334 ${Buffer.from('Username:').toString('base64')}`);
+        }
+
+        this.reply(session, '504 5.5.4 Unrecognized authentication type');
+    }
+
+    private handleLogin(session: MockSmtpSession, value: string): void {
+        if (session.authStep === 'username') {
+            session.loginUsername = value;
+            session.authStep = 'password';
+            return this.reply(session, `334 ${Buffer.from('Password:').toString('base64')}`);
+        }
+
+        session.authStep = null;
+        this.authenticate(session, session.loginUsername, value);
+    }
+
+    private authenticate(session: MockSmtpSession, username?: string, password?: string): void {
+        const token = this.options.serverToken;
+
+        if (token !== undefined && (username !== token || password !== token)) {
+            return this.reply(session, '535 5.7.8 Authentication credentials invalid');
+        }
+
+        session.authenticated = true;
+        session.username = username;
+        this.reply(session, '235 2.7.0 Authentication successful');
+    }
+
+    private handleMail(session: MockSmtpSession, argument: string): void {
+        const match = /^FROM:\s*<([^>]*)>/i.exec(argument);
+
+        if (!session.authenticated) {
+            return this.reply(session, '530 5.7.0 Authentication required');
+        }
+
+        if (match === null) {
+            return this.reply(session, '501 5.5.4 Syntax error in MAIL command');
+        }
+
+        session.from = match[1];
+        session.recipients = [];
+        this.reply(session, '250 OK');
+    }
+
+    private handleRecipient(session: MockSmtpSession, argument: string): void {
+        const match = /^TO:\s*<([^>]*)>/i.exec(argument);
+
+        if (session.from === null) {
+            return this.reply(session, '503 5.5.1 MAIL command required first');
+        }
+
+        if (match === null) {
+            return this.reply(session, '501 5.5.4 Syntax error in RCPT command');
+        }
+
+        session.recipients.push(match[1]);
+        this.reply(session, '250 OK');
+    }
+
+    /**
+     * Collect message data until a line with a single dot. Dots added by the client at the start of lines are removed.
+     */
+    private handleDataLine(session: MockSmtpSession, line: string): void {
+        const data = <string[]>session.data;
+
+        if (line !== '.') {
+            data.push(line.replace(/^\./, ''));
+            return;
+        }
+
+        const messageId = crypto.randomBytes(16).toString('hex').replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5');
+        this.messages.push({
+            from: <string>session.from,
+            recipients: session.recipients,
+            data: data.join('\r\n'),
+            username: session.username,
+            secure: session.secure,
+            messageId: messageId
+        });
+
+        session.data = null;
+        session.from = null;
+        session.recipients = [];
+        this.reply(session, `250 2.0.0 OK: queued as ${messageId}`);
+    }
+
+    private reply(session: MockSmtpSession, reply: string): void {
+        session.socket.write(`${reply}\r\n`);
+    }
+}
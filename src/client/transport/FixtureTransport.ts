@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as url from 'url';
+
+import {
+    ClientOptions, FixtureInteraction, FixtureMode, FixtureOptions, FixtureRequest, Transport, TransportRequest, TransportResponse
+} from "../models";
+import { Hash } from "../models/client/SupportingTypes";
+import * as Errors from "../models/client/Errors";
+import { HttpTransport } from "./HttpTransport";
+
+/**
+ * Transport which records API interactions to a fixture file, and replays them later without network access.
+ * API tokens sent with recorded requests are scrubbed from saved requests and responses.
+ *
+ * @example
+ * const transport = new FixtureTransport({ file: __dirname + '/fixtures/bounces.json', mode: FixtureMode.Auto });
+ * const client = new ServerClient(serverToken, { useHttps: true, requestHost: 'api.postmarkapp.com', timeout: 30, transport: transport });
+ */
+export class FixtureTransport implements Transport {
+    public static ScrubbedValue: string = '[SCRUBBED]';
+
+    /**
+     * Response fields which contain API tokens, and are scrubbed even when tokens were not sent with the request.
+     */
+    private static TokenFields: string[] = ['ApiTokens'];
+
+    private readonly options: FixtureOptions;
+    private readonly mode: FixtureMode;
+    private readonly interactions: FixtureInteraction[];
+    private readonly replayed: boolean[];
+    private readonly transport: Transport;
+
+    constructor(options: FixtureOptions) {
+        this.options = { mode: FixtureMode.Auto, matchQuery: true, matchBody: true, ...options };
+        this.mode = (this.options.mode === FixtureMode.Auto) ?
+            (fs.existsSync(this.options.file) ? FixtureMode.Replay : FixtureMode.Record) : <FixtureMode>this.options.mode;
+        this.interactions = (this.mode === FixtureMode.Replay) ? this.loadInteractions() : [];
+        this.replayed = this.interactions.map(() => false);
+        this.transport = this.options.transport || new HttpTransport();
+    }
+
+    /**
+     * Record or replay request, depending on the fixture mode.
+     *
+     * @param request - HTTP request that should be recorded or replayed.
+     *
+     * @returns A promise that will complete with the API response, or with the saved response when replaying.
+     */
+    public request(request: TransportRequest): Promise<TransportResponse> {
+        return (this.mode === FixtureMode.Replay) ? this.replay(request) : this.record(request);
+    }
+
+    /**
+     * Execute request and save it together with its response. Requests which fail without response are not saved.
+     */
+    private record(request: TransportRequest): Promise<TransportResponse> {
+        return this.transport.request(request).then(response => {
+            const interaction: FixtureInteraction = { request: this.toFixtureRequest(request), response: response };
+            this.interactions.push(this.scrub(interaction, this.getTokens(request)));
+            this.saveInteractions();
+            return response;
+        });
+    }
+
+    /**
+     * Respond with the first saved interaction matching the request which wasn't replayed yet.
+     * When all matching interactions were replayed, the last one is repeated.
+     */
+    private replay(request: TransportRequest): Promise<TransportResponse> {
+        const fixtureRequest = this.toFixtureRequest(request);
+        const matching: number[] = [];
+
+        this.interactions.forEach((interaction, index) => {
+            if (this.matches(interaction.request, fixtureRequest)) { matching.push(index); }
+        });
+
+        if (matching.length === 0) {
+            return Promise.reject(new Errors.PostmarkError(
+                `No interaction recorded in ${this.options.file} matches ${fixtureRequest.method} ${fixtureRequest.path}.`));
+        }
+
+        const index = matching.filter(index => !this.replayed[index])[0];
+        const replayedIndex = (index !== undefined) ? index : matching[matching.length - 1];
+        this.replayed[replayedIndex] = true;
+
+        return Promise.resolve(this.copy(this.interactions[replayedIndex].response));
+    }
+
+    private matches(recorded: FixtureRequest, request: FixtureRequest): boolean {
+        return recorded.method === request.method &&
+            recorded.path === request.path &&
+            (!this.options.matchQuery || this.serialize(recorded.query) === this.serialize(request.query)) &&
+            (!this.options.matchBody || this.serialize(recorded.body) === this.serialize(request.body));
+    }
+
+    /**
+     * Convert transport request to the form saved in fixtures. Query parameters without value are dropped,
+     * the same way they are dropped when request is sent.
+     */
+    private toFixtureRequest(request: TransportRequest): FixtureRequest {
+        const query: Hash<string> = {};
+        const queryParameters: any = request.queryParameters || {};
+
+        Object.keys(queryParameters).forEach(key => {
+            if (queryParameters[key] !== undefined && queryParameters[key] !== null) {
+                query[key] = String(queryParameters[key]);
+            }
+        });
+
+        return {
+            method: request.method,
+            path: url.parse(request.url).pathname || '/',
+            query: query,
+            body: (request.body !== null && request.body !== undefined) ? this.copy(request.body) : null
+        };
+    }
+
+    /**
+     * API tokens sent with the request, which must not be saved to fixture file.
+     */
+    private getTokens(request: TransportRequest): string[] {
+        return [ClientOptions.DefaultHeaderNames.SERVER_TOKEN, ClientOptions.DefaultHeaderNames.ACCOUNT_TOKEN]
+            .map(header => request.headers[header])
+            .filter(token => token !== undefined && token !== '');
+    }
+
+    /**
+     * Replace API tokens anywhere in the interaction, and values of response fields which contain API tokens.
+     */
+    private scrub(interaction: FixtureInteraction, tokens: string[]): FixtureInteraction {
+        const scrubValue = (value: any): any => {
+            if (typeof value === 'string') {
+                return tokens.reduce((result, token) => result.split(token).join(FixtureTransport.ScrubbedValue), value);
+            }
+            else if (Array.isArray(value)) {
+                return value.map(scrubValue);
+            }
+            else if (value !== null && typeof value === 'object') {
+                const result: any = {};
+                Object.keys(value).forEach(key => {
+                    result[key] = (FixtureTransport.TokenFields.indexOf(key) !== -1 && Array.isArray(value[key])) ?
+                        value[key].map(() => FixtureTransport.ScrubbedValue) : scrubValue(value[key]);
+                });
+                return result;
+            }
+
+            return value;
+        };
+
+        return scrubValue(interaction);
+    }
+
+    /**
+     * Serialize value to JSON with sorted object keys, so that values can be compared regardless of key order.
+     */
+    private serialize(value: any): string {
+        if (Array.isArray(value)) {
+            return `[${value.map(item => this.serialize(item)).join(',')}]`;
+        }
+        else if (value !== null && typeof value === 'object') {
+            return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${this.serialize(value[key])}`).join(',')}}`;
+        }
+
+        return JSON.stringify(value);
+    }
+
+    private copy<T>(value: T): T {
+        return JSON.parse(JSON.stringify(value));
+    }
+
+    private loadInteractions(): FixtureInteraction[] {
+        const fixture = JSON.parse(fs.readFileSync(this.options.file, 'utf8'));
+        return fixture.interactions || [];
+    }
+
+    private saveInteractions(): void {
+        this.createDirectory(path.dirname(this.options.file));
+        fs.writeFileSync(this.options.file, JSON.stringify({ interactions: this.interactions }, null, 2));
+    }
+
+    private createDirectory(directory: string): void {
+        if (!fs.existsSync(directory)) {
+            this.createDirectory(path.dirname(directory));
+            fs.mkdirSync(directory);
+        }
+    }
+}
@@ -0,0 +1,322 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as querystring from 'querystring';
+import * as tls from 'tls';
+import * as url from 'url';
+import * as zlib from 'zlib';
+
+import { ConnectionOptions, Transport, TransportRequest, TransportResponse } from "../models";
+import { Hash } from "../models/client/SupportingTypes";
+import * as Errors from "../models/client/Errors";
+
+/**
+ * Default transport, which executes requests with Node.js built-in http and https modules.
+ * Request bodies are sent as JSON, and JSON responses are parsed.
+ * Requests can be sent through HTTP proxy, and connections can be kept alive, based on request connection options.
+ * HTTPS requests sent through proxy open a new proxy tunnel for every request, so their connections are not kept alive.
+ * Timeouts, cancellations and proxy failures are rejected with [[TimeoutError]], [[RequestAbortedError]] and [[NetworkError]].
+ */
+export class HttpTransport implements Transport {
+    private readonly keepAliveAgents: Hash<http.Agent> = {};
+
+    /**
+     * Execute HTTP request.
+     *
+     * @param request - HTTP request that should be executed.
+     *
+     * @returns A promise that will complete when the response is received (or an error occurs).
+     */
+    public request(request: TransportRequest): Promise<TransportResponse> {
+        const requestUrl = url.parse(this.buildUrl(request.url, request.queryParameters));
+        const connection: ConnectionOptions = request.connection || {};
+        const useTunnel = connection.proxy !== undefined && connection.agent === undefined && requestUrl.protocol === 'https:';
+
+        const tunnel: Promise<(net.Socket | undefined)> = useTunnel ?
+            this.openTunnel(requestUrl, <string>connection.proxy, request.timeout, request.signal) : Promise.resolve(undefined);
+
+        return tunnel.then(socket => this.sendRequest(request, requestUrl, connection, socket).catch(error => {
+            if (socket !== undefined) {
+                socket.destroy();
+            }
+            throw error;
+        }));
+    }
+
+    /**
+     * Send HTTP request, directly, through HTTP proxy or through already opened proxy tunnel.
+     */
+    private sendRequest(request: TransportRequest, requestUrl: url.UrlWithStringQuery, connection: ConnectionOptions,
+        tunnelSocket?: net.Socket): Promise<TransportResponse> {
+
+        return new Promise((resolve, reject) => {
+            const payload: (string | undefined) = (request.body !== null && request.body !== undefined) ?
+                JSON.stringify(request.body) : undefined;
+            const options: https.RequestOptions = {
+                ...this.getRequestTarget(requestUrl, connection, tunnelSocket),
+                method: request.method.toString(),
+                ca: connection.ca,
+                agent: this.getAgent(requestUrl, connection, tunnelSocket)
+            };
+            options.headers = { ...this.buildHeaders(request.headers, payload), ...options.headers };
+
+            if (tunnelSocket !== undefined) {
+                options.createConnection = () => tls.connect({
+                    socket: tunnelSocket,
+                    servername: <string>requestUrl.hostname,
+                    ca: connection.ca
+                });
+            }
+
+            const requestFunction: typeof http.request = (options.protocol === 'https:') ? https.request : http.request;
+            const httpRequest = requestFunction(options, response => {
+                this.readResponse(response).then(resolve, reject);
+            });
+
+            httpRequest.setTimeout(request.timeout, () => {
+                reject(this.timeoutError(request.timeout));
+                httpRequest.abort();
+            });
+
+            httpRequest.on('error', reject);
+
+            if (request.signal !== undefined) {
+                const signal = request.signal;
+                const onAbort = () => {
+                    reject(new Errors.RequestAbortedError('Request was aborted.'));
+                    httpRequest.abort();
+                };
+
+                if (signal.aborted) {
+                    onAbort();
+                    return;
+                }
+
+                signal.addEventListener('abort', onAbort);
+                httpRequest.on('close', () => signal.removeEventListener('abort', onAbort));
+            }
+
+            if (payload !== undefined) {
+                httpRequest.write(payload);
+            }
+
+            httpRequest.end();
+        });
+    }
+
+    /**
+     * Get host and path request should be sent to. Plain HTTP requests through proxy are sent to the proxy,
+     * with full URL as the path.
+     */
+    private getRequestTarget(requestUrl: url.UrlWithStringQuery, connection: ConnectionOptions,
+        tunnelSocket?: net.Socket): https.RequestOptions {
+
+        if (connection.proxy === undefined || connection.agent !== undefined || tunnelSocket !== undefined) {
+            return {
+                protocol: requestUrl.protocol,
+                hostname: requestUrl.hostname,
+                port: requestUrl.port,
+                path: requestUrl.path
+            };
+        }
+
+        const proxyUrl = url.parse(connection.proxy);
+        return {
+            protocol: proxyUrl.protocol,
+            hostname: proxyUrl.hostname,
+            port: proxyUrl.port,
+            path: requestUrl.href,
+            headers: this.buildProxyHeaders(proxyUrl)
+        };
+    }
+
+    private getAgent(requestUrl: url.UrlWithStringQuery, connection: ConnectionOptions,
+        tunnelSocket?: net.Socket): (http.Agent | boolean | undefined) {
+
+        if (connection.agent !== undefined) {
+            return connection.agent;
+        }
+        else if (tunnelSocket !== undefined) {
+            return false;
+        }
+        else if (connection.keepAlive) {
+            const protocol = (connection.proxy !== undefined) ? <string>url.parse(connection.proxy).protocol : <string>requestUrl.protocol;
+
+            if (this.keepAliveAgents[protocol] === undefined) {
+                this.keepAliveAgents[protocol] = (protocol === 'https:') ?
+                    new https.Agent({ keepAlive: true }) : new http.Agent({ keepAlive: true });
+            }
+
+            return this.keepAliveAgents[protocol];
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Open a tunnel to the target host through HTTP proxy, with CONNECT request.
+     * CONNECT request is aborted, together with its socket, when it fails, times out or signal is aborted.
+     *
+     * @returns A promise that will complete with the socket connected to the target host.
+     */
+    private openTunnel(requestUrl: url.UrlWithStringQuery, proxy: string, timeout: number,
+        signal?: AbortSignal): Promise<net.Socket> {
+
+        return new Promise((resolve, reject) => {
+            if (signal !== undefined && signal.aborted) {
+                reject(new Errors.RequestAbortedError('Request was aborted.'));
+                return;
+            }
+
+            const proxyUrl = url.parse(proxy);
+            const target = `${requestUrl.hostname}:${requestUrl.port || 443}`;
+            const requestFunction: typeof http.request = (proxyUrl.protocol === 'https:') ? https.request : http.request;
+
+            const connectRequest = requestFunction({
+                protocol: proxyUrl.protocol,
+                hostname: proxyUrl.hostname,
+                port: proxyUrl.port,
+                method: 'CONNECT',
+                path: target,
+                headers: { 'Host': target, ...this.buildProxyHeaders(proxyUrl) }
+            });
+
+            const onAbort = () => fail(new Errors.RequestAbortedError('Request was aborted.'));
+            const fail = (error: Error) => {
+                if (signal !== undefined) {
+                    signal.removeEventListener('abort', onAbort);
+                }
+                reject(error);
+                connectRequest.abort();
+            };
+
+            connectRequest.setTimeout(timeout, () => fail(this.timeoutError(timeout)));
+
+            connectRequest.on('connect', (response: http.IncomingMessage, socket: net.Socket) => {
+                if (response.statusCode === 200) {
+                    if (signal !== undefined) {
+                        signal.removeEventListener('abort', onAbort);
+                    }
+                    connectRequest.setTimeout(0);
+                    resolve(socket);
+                }
+                else {
+                    socket.destroy();
+                    fail(new Errors.NetworkError(`Proxy responded with status ${response.statusCode} to CONNECT request.`, 'EPROXY'));
+                }
+            });
+
+            connectRequest.on('error', fail);
+
+            if (signal !== undefined) {
+                signal.addEventListener('abort', onAbort);
+            }
+
+            connectRequest.end();
+        });
+    }
+
+    private buildProxyHeaders(proxyUrl: url.UrlWithStringQuery): Hash<string> {
+        if (!proxyUrl.auth) {
+            return {};
+        }
+
+        return { 'Proxy-Authorization': `Basic ${Buffer.from(decodeURIComponent(proxyUrl.auth)).toString('base64')}` };
+    }
+
+    private timeoutError(timeout: number): Errors.TimeoutError {
+        return new Errors.TimeoutError(`Request timed out after ${timeout}ms.`, 'ETIMEDOUT');
+    }
+
+    /**
+     * Read the complete response, decompress it if needed and parse the JSON body.
+     *
+     * @param response - HTTP response returned by Node.js.
+     *
+     * @returns A promise that will complete when the whole response is read.
+     */
+    private readResponse(response: http.IncomingMessage): Promise<TransportResponse> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            const stream = this.decompressedStream(response);
+
+            stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+            stream.on('error', reject);
+            stream.on('end', () => {
+                resolve({
+                    statusCode: response.statusCode || 0,
+                    headers: this.normalizeHeaders(response.headers),
+                    body: this.parseBody(Buffer.concat(chunks).toString('utf8'))
+                });
+            });
+        });
+    }
+
+    private decompressedStream(response: http.IncomingMessage): NodeJS.ReadableStream {
+        switch (response.headers['content-encoding']) {
+            case 'gzip':
+                return response.pipe(zlib.createGunzip());
+
+            case 'deflate':
+                return response.pipe(zlib.createInflate());
+
+            default:
+                return response;
+        }
+    }
+
+    private parseBody(content: string): any {
+        if (content === '') {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(content);
+        }
+        catch (error) {
+            return content;
+        }
+    }
+
+    private buildUrl(requestUrl: string, queryParameters: object): string {
+        const parameters: Hash<any> = {};
+
+        Object.keys(queryParameters).forEach(key => {
+            const value = (<Hash<any>>queryParameters)[key];
+            if (value !== undefined && value !== null) {
+                parameters[key] = value;
+            }
+        });
+
+        const query = querystring.stringify(parameters);
+        if (query === '') {
+            return requestUrl;
+        }
+
+        return requestUrl + (requestUrl.indexOf('?') === -1 ? '?' : '&') + query;
+    }
+
+    private buildHeaders(headers: Hash<string>, payload?: string): Hash<string> {
+        const result: Hash<string> = { ...headers, 'Accept-Encoding': 'gzip, deflate' };
+
+        if (payload !== undefined) {
+            result['Content-Type'] = 'application/json';
+            result['Content-Length'] = Buffer.byteLength(payload).toString();
+        }
+
+        return result;
+    }
+
+    private normalizeHeaders(headers: http.IncomingHttpHeaders): Hash<string> {
+        const result: Hash<string> = {};
+
+        Object.keys(headers).forEach(name => {
+            const value = headers[name];
+            if (value !== undefined) {
+                result[name] = Array.isArray(value) ? value.join(', ') : value;
+            }
+        });
+
+        return result;
+    }
+}
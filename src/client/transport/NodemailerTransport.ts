@@ -0,0 +1,167 @@
+import * as path from 'path';
+
+import {
+    Address, Addresses, Attachment, AttachmentOptions, Header, Message, MessageSendingResponse, NodemailerAddress, NodemailerAddresses,
+    NodemailerAttachment, NodemailerMail, NodemailerMailOptions, NodemailerSentMessageInfo, TemplatedMessage
+} from "../models";
+import * as Errors from "../models/client/Errors";
+import ServerClient from "../ServerClient";
+import { AddressList } from "../AddressList";
+import { AttachmentFactory } from "../AttachmentFactory";
+
+/**
+ * Nodemailer transport sending messages with [[ServerClient]], so that code using Nodemailer sendMail can switch to
+ * Postmark without changes. Mail options are converted to messages, or templated messages when template ID or alias is set.
+ * Info object returned by sendMail contains Postmark message ID.
+ *
+ * @example
+ * const transporter = nodemailer.createTransport(new NodemailerTransport(new ServerClient('server-token')));
+ * const info = await transporter.sendMail({ from: 'sender@example.com', to: 'recipient@example.com', subject: 'Hello', text: 'Hello' });
+ */
+export class NodemailerTransport {
+    public name: string = 'Postmark';
+    public version: string;
+    private readonly client: ServerClient;
+
+    constructor(client: ServerClient) {
+        this.client = client;
+        this.version = client.clientVersion;
+    }
+
+    /**
+     * Send mail, called by Nodemailer for each sendMail call.
+     *
+     * @param mail - Mail object with mail options in data field.
+     * @param callback - Callback receiving error or info object.
+     */
+    public send(mail: NodemailerMail, callback: (error: (Error | null), info?: NodemailerSentMessageInfo) => void): void {
+        this.sendMail(mail.data).then(info => callback(null, info), error => callback(error));
+    }
+
+    /**
+     * Send mail without Nodemailer.
+     *
+     * @param options - Mail options in the format Nodemailer uses.
+     *
+     * @returns A promise that will complete with info object in the format Nodemailer uses.
+     */
+    public sendMail(options: NodemailerMailOptions): Promise<NodemailerSentMessageInfo> {
+        const from = options.from;
+        if (from === undefined) {
+            return Promise.reject(new Errors.PostmarkError("Mail options must have 'from' address."));
+        }
+
+        return Promise.all((options.attachments || []).map((attachment, index) => this.convertAttachment(attachment, index)))
+            .then(attachments => {
+                const message = this.convertMessage(options, this.convertAddress(from), attachments);
+
+                return (message instanceof TemplatedMessage) ?
+                    this.client.sendEmailWithTemplate(message) : this.client.sendEmail(message);
+            })
+            .then(response => this.createInfo(options, response));
+    }
+
+    private convertMessage(options: NodemailerMailOptions, from: Address, attachments: Attachment[]): (Message | TemplatedMessage) {
+        const to = this.convertAddresses(options.to);
+        const cc = this.convertAddresses(options.cc);
+        const bcc = this.convertAddresses(options.bcc);
+        const replyTo = this.convertAddresses(options.replyTo);
+        const headers = this.convertHeaders(options.headers);
+        const templateIdOrAlias = (options.templateId !== undefined) ? options.templateId : options.templateAlias;
+
+        if (templateIdOrAlias !== undefined) {
+            return new TemplatedMessage(from, templateIdOrAlias, options.templateModel || {}, to, cc, bcc, replyTo,
+                options.tag, options.trackOpens, options.trackLinks, headers, attachments, options.metadata);
+        }
+
+        return new Message(from, options.subject || '', this.convertBody(options.html), this.convertBody(options.text),
+            to, cc, bcc, replyTo, options.tag, options.trackOpens, options.trackLinks, headers, attachments, options.metadata);
+    }
+
+    /**
+     * Convert Nodemailer addresses, {name, address} objects are converted to {Name, Email} objects.
+     */
+    private convertAddresses(addresses?: NodemailerAddresses): (Addresses | undefined) {
+        if (addresses === undefined) {
+            return undefined;
+        }
+
+        return Array.isArray(addresses) ? addresses.map(address => this.convertAddress(address)) : this.convertAddress(addresses);
+    }
+
+    private convertAddress(address: (string | NodemailerAddress)): Address {
+        return (typeof address === 'string') ? address :
+            (address.name !== undefined) ? { Email: address.address, Name: address.name } : { Email: address.address };
+    }
+
+    /**
+     * Convert headers provided as an object, where each key can have multiple values, or as a list of key and value pairs.
+     */
+    private convertHeaders(headers: NodemailerMailOptions['headers']): (Header[] | undefined) {
+        if (headers === undefined) {
+            return undefined;
+        }
+
+        if (Array.isArray(headers)) {
+            return headers.map(header => new Header(header.key, header.value));
+        }
+
+        return Object.keys(headers).reduce((result: Header[], key: string) => {
+            const value = headers[key];
+            const values = Array.isArray(value) ? value : [(typeof value === 'object') ? value.value : value];
+
+            return result.concat(values.map(headerValue => new Header(key, headerValue)));
+        }, []);
+    }
+
+    private convertBody(body?: (string | Buffer)): (string | undefined) {
+        return Buffer.isBuffer(body) ? body.toString('utf8') : body;
+    }
+
+    /**
+     * Convert attachment, attachments with cid are converted to inline attachments with cid: content ID.
+     * Attachments without file name are named the way Nodemailer names them, attachment-1, attachment-2 and so on.
+     */
+    private convertAttachment(attachment: NodemailerAttachment, index: number): Promise<Attachment> {
+        const options: AttachmentOptions = {
+            name: attachment.filename || ((attachment.path !== undefined) ? path.basename(attachment.path) : `attachment-${index + 1}`),
+            inline: attachment.cid !== undefined || attachment.contentDisposition === 'inline'
+        };
+
+        if (attachment.contentType !== undefined) {
+            options.contentType = attachment.contentType;
+        }
+
+        if (attachment.cid !== undefined) {
+            options.contentId = `cid:${attachment.cid}`;
+        }
+
+        const content = attachment.content;
+
+        if (content === undefined) {
+            return (attachment.path !== undefined) ? AttachmentFactory.fromFile(attachment.path, options) :
+                Promise.reject(new Errors.PostmarkError(`Attachment '${options.name}' must have content or path.`));
+        }
+
+        if (typeof content === 'string' || Buffer.isBuffer(content)) {
+            return Promise.resolve().then(() => AttachmentFactory.fromBuffer(
+                Buffer.isBuffer(content) ? content : Buffer.from(content, <BufferEncoding>(attachment.encoding || 'utf8')), options));
+        }
+
+        return AttachmentFactory.fromStream(content, options);
+    }
+
+    private createInfo(options: NodemailerMailOptions, response: MessageSendingResponse): NodemailerSentMessageInfo {
+        const from = AddressList.parse(<Addresses>this.convertAddresses(options.from))[0];
+        const recipients = [options.to, options.cc, options.bcc].reduce((result: string[], addresses) =>
+            result.concat(AddressList.parse(this.convertAddresses(addresses)).map(recipient => recipient.Email)), []);
+
+        return {
+            messageId: response.MessageID,
+            envelope: { from: (from !== undefined) ? from.Email : '', to: recipients },
+            accepted: recipients,
+            rejected: [],
+            response: `${response.ErrorCode} ${response.Message}`
+        };
+    }
+}
@@ -0,0 +1,204 @@
+import * as crypto from 'crypto';
+import * as url from 'url';
+
+import {
+    ClientOptions, ErrorCode, Message, MessageSendingResponse, SandboxMessage, SandboxOptions, TemplatedMessage,
+    TemplatedMessageBatch, Transport, TransportRequest, TransportResponse
+} from "../models";
+import { AddressList } from "../AddressList";
+
+/**
+ * Result of validating a single message, before it is accepted to the outbox.
+ */
+interface SandboxError {
+    ErrorCode: ErrorCode;
+    Message: string;
+}
+
+/**
+ * Transport which never reaches the API. Messages sent with sendEmail, sendEmailBatch, sendEmailWithTemplate and
+ * sendEmailBatchWithTemplates are validated, and accepted messages are kept in the outbox.
+ * Invalid messages are rejected with the same error codes the API uses.
+ *
+ * @example
+ * const sandbox = new SandboxTransport();
+ * const client = new ServerClient('token', { useHttps: true, requestHost: 'api.postmarkapp.com', timeout: 30, transport: sandbox });
+ * await client.sendEmail(message);
+ * console.log(sandbox.outbox[0].response.MessageID);
+ */
+export class SandboxTransport implements Transport {
+    public static DefaultOptions: SandboxOptions = {
+        inactiveRecipients: [],
+        maxRecipients: 50,
+        maxBatchSize: 500
+    };
+
+    /**
+     * Messages accepted by this transport, in the order they were sent.
+     */
+    public readonly outbox: SandboxMessage[] = [];
+    private readonly options: SandboxOptions;
+
+    constructor(options: SandboxOptions = {}) {
+        this.options = { ...SandboxTransport.DefaultOptions, ...options };
+    }
+
+    /**
+     * Remove all messages from the outbox.
+     */
+    public clear(): void {
+        this.outbox.splice(0, this.outbox.length);
+    }
+
+    /**
+     * Simulate API request. Only message sending endpoints are supported, other requests are rejected with HTTP status 404.
+     *
+     * @param request - HTTP request that should be simulated.
+     *
+     * @returns A promise that will complete with simulated API response.
+     */
+    public request(request: TransportRequest): Promise<TransportResponse> {
+        const path = url.parse(request.url).pathname || '';
+        const endpoint = (/\/email(\/batch|\/withTemplate|\/batchWithTemplates)?$/.exec(path) || [])[0];
+
+        if (request.method !== ClientOptions.HttpMethod.POST || endpoint === undefined) {
+            return Promise.resolve(this.buildResponse(404, { ErrorCode: 0, Message: `Sandbox doesn't support ${request.method} ${path}.` }));
+        }
+
+        switch (endpoint) {
+            case '/email':
+                return Promise.resolve(this.sendMessage(endpoint, <Message>request.body, false));
+
+            case '/email/withTemplate':
+                return Promise.resolve(this.sendMessage(endpoint, <TemplatedMessage>request.body, true));
+
+            case '/email/batch':
+                return Promise.resolve(this.sendBatch(endpoint, <Message[]>request.body, false));
+
+            default:
+                return Promise.resolve(this.sendBatch(endpoint, (<TemplatedMessageBatch>(request.body || {})).Messages, true));
+        }
+    }
+
+    private sendMessage(path: string, message: (Message | TemplatedMessage), templated: boolean): TransportResponse {
+        const error = this.validateMessage(message, templated);
+        if (error !== null) {
+            return this.buildResponse(422, error);
+        }
+
+        return this.buildResponse(200, this.acceptMessage(path, message));
+    }
+
+    /**
+     * Batch is rejected only when it is too large. Each message in the batch is accepted or rejected on its own.
+     */
+    private sendBatch(path: string, messages: (Message[] | TemplatedMessage[]), templated: boolean): TransportResponse {
+        if (!Array.isArray(messages)) {
+            return this.buildResponse(422, { ErrorCode: ErrorCode.InvalidJson, Message: 'Provided request body is not a list of messages.' });
+        }
+
+        if (messages.length > <number>this.options.maxBatchSize) {
+            return this.buildResponse(422, {
+                ErrorCode: ErrorCode.TooManyBatchMessages,
+                Message: `Too many batch messages. Maximum of ${this.options.maxBatchSize} messages per batch is allowed.`
+            });
+        }
+
+        return this.buildResponse(200, (<Array<(Message | TemplatedMessage)>>messages).map(message => {
+            const error = this.validateMessage(message, templated);
+            return error !== null ? error : this.acceptMessage(path, message);
+        }));
+    }
+
+    private acceptMessage(path: string, message: (Message | TemplatedMessage)): MessageSendingResponse {
+        const response: MessageSendingResponse = {
+            To: (message.To !== undefined) ? AddressList.format(message.To) : undefined,
+            SubmittedAt: new Date().toISOString(),
+            MessageID: this.generateMessageId(),
+            ErrorCode: ErrorCode.Success,
+            Message: 'OK'
+        };
+
+        this.outbox.push({ path: path, message: JSON.parse(JSON.stringify(message)), response: response });
+        return response;
+    }
+
+    /**
+     * Validate message the same way the API does.
+     *
+     * @returns error describing the first problem found, or null when message is valid.
+     */
+    private validateMessage(message: (Message | TemplatedMessage | null), templated: boolean): (SandboxError | null) {
+        if (message === null || typeof message !== 'object') {
+            return { ErrorCode: ErrorCode.InvalidJson, Message: 'Provided message is not a JSON object.' };
+        }
+
+        if (AddressList.parse(message.From).length === 0) {
+            return { ErrorCode: ErrorCode.InvalidEmailRequest, Message: "Missing 'From' address." };
+        }
+
+        for (const field of AddressList.MessageFields) {
+            const invalidAddress = AddressList.parse(message[field]).filter(address => !AddressList.isValid(address.Email))[0];
+            if (invalidAddress !== undefined) {
+                return { ErrorCode: ErrorCode.InvalidEmailRequest, Message: `Invalid '${field}' address: '${invalidAddress.Email}'.` };
+            }
+        }
+
+        const recipients = [...AddressList.parse(message.To), ...AddressList.parse(message.Cc), ...AddressList.parse(message.Bcc)]
+            .map(recipient => recipient.Email);
+        if (recipients.length === 0) {
+            return { ErrorCode: ErrorCode.InvalidEmailRequest, Message: 'Zero recipients specified.' };
+        }
+
+        if (recipients.length > <number>this.options.maxRecipients) {
+            return {
+                ErrorCode: ErrorCode.InvalidEmailRequest,
+                Message: `Maximum of ${this.options.maxRecipients} recipients allowed per message, ${recipients.length} were provided.`
+            };
+        }
+
+        if (templated && !this.hasTemplate(<TemplatedMessage>message)) {
+            return { ErrorCode: ErrorCode.InvalidEmailRequest, Message: 'Either TemplateId or TemplateAlias must be provided.' };
+        }
+
+        if (!templated && !this.hasBody(<Message>message)) {
+            return { ErrorCode: ErrorCode.InvalidEmailRequest, Message: 'Provide either email TextBody or HtmlBody or both.' };
+        }
+
+        const inactiveRecipients = (this.options.inactiveRecipients || []).map(address => address.toLowerCase());
+        const inactive = recipients.filter(address => inactiveRecipients.indexOf(address.toLowerCase()) !== -1);
+        if (inactive.length > 0) {
+            return {
+                ErrorCode: ErrorCode.InactiveRecipient,
+                Message: `You tried to send to a recipient that has been marked as inactive. Found inactive addresses: ${inactive.join(', ')}.`
+            };
+        }
+
+        return null;
+    }
+
+    private hasTemplate(message: TemplatedMessage): boolean {
+        return message.TemplateId !== undefined || message.TemplateAlias !== undefined;
+    }
+
+    private hasBody(message: Message): boolean {
+        return !!message.HtmlBody || !!message.TextBody;
+    }
+
+    /**
+     * Generate random message ID in the same format the API uses.
+     */
+    private generateMessageId(): string {
+        const bytes = crypto.randomBytes(16);
+        bytes[6] = (bytes[6] & 0x0f) | 0x40;
+        bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+        const hex = bytes.toString('hex');
+        return [hex.substr(0, 8), hex.substr(8, 4), hex.substr(12, 4), hex.substr(16, 4), hex.substr(20, 12)].join('-');
+    }
+
+    private buildResponse(statusCode: number,
+        body: (SandboxError | MessageSendingResponse | Array<(SandboxError | MessageSendingResponse)>)): TransportResponse {
+        return { statusCode: statusCode, headers: { 'content-type': 'application/json' }, body: body };
+    }
+}
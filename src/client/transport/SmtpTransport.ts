@@ -0,0 +1,279 @@
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+
+import { ErrorCode, Message, MessageSendingResponse, SmtpOptions } from "../models";
+import * as Errors from "../models/client/Errors";
+import { AddressList } from "../AddressList";
+import { MimeGenerator } from "../MimeGenerator";
+
+/**
+ * Complete reply of SMTP server, for example 250 with lines of EHLO reply.
+ */
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+/**
+ * Single SMTP session. Replies are read in the order commands are sent.
+ */
+class SmtpConnection {
+    public secure: boolean;
+    private socket: net.Socket;
+    private buffer: string = '';
+    private replyLines: string[] = [];
+    private replies: SmtpReply[] = [];
+    private waiting: Array<{ resolve: (reply: SmtpReply) => void, reject: (error: Error) => void }> = [];
+    private error: (Error | null) = null;
+
+    constructor(socket: net.Socket, secure: boolean, timeout: number) {
+        this.socket = socket;
+        this.secure = secure;
+        this.attach(socket, timeout);
+    }
+
+    /**
+     * Send command and wait for its reply.
+     *
+     * @param command - Command to send, without line ending.
+     * @param expectedCodes - Reply codes which mean that command succeeded.
+     *
+     * @throws [[SmtpError]] when server replies with other reply code.
+     */
+    public command(command: string, expectedCodes: number[]): Promise<SmtpReply> {
+        this.socket.write(`${command}\r\n`);
+        return this.expectReply(expectedCodes);
+    }
+
+    public expectReply(expectedCodes: number[]): Promise<SmtpReply> {
+        return this.readReply().then(reply => {
+            if (expectedCodes.indexOf(reply.code) === -1) {
+                throw new Errors.SmtpError(`SMTP server rejected the message: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+            }
+            return reply;
+        });
+    }
+
+    /**
+     * Upgrade connection to TLS, after server accepted STARTTLS command.
+     */
+    public upgrade(options: tls.ConnectionOptions, timeout: number): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            this.detach(this.socket);
+            const secureSocket = tls.connect({ ...options, socket: this.socket }, () => {
+                secureSocket.removeListener('error', reject);
+                resolve();
+            });
+
+            secureSocket.once('error', reject);
+            this.socket = secureSocket;
+            this.secure = true;
+            this.attach(secureSocket, timeout);
+        });
+    }
+
+    public close(): void {
+        this.socket.end();
+    }
+
+    public destroy(): void {
+        this.socket.destroy();
+    }
+
+    private attach(socket: net.Socket, timeout: number): void {
+        socket.setTimeout(timeout, () => {
+            this.fail(new Errors.TimeoutError(`SMTP server did not respond within ${timeout} ms.`, 'ETIMEDOUT'));
+            socket.destroy();
+        });
+        socket.on('data', (data: Buffer) => this.receive(data.toString('utf8')));
+        socket.on('error', (error: any) => this.fail(new Errors.NetworkError(error.message, error.code || 'ECONNRESET')));
+        socket.on('close', () => this.fail(new Errors.NetworkError('SMTP connection was closed.', 'ECONNRESET')));
+    }
+
+    /**
+     * Stop handling events of plain socket wrapped by TLS socket, so that they are handled only once, by TLS socket handlers.
+     */
+    private detach(socket: net.Socket): void {
+        socket.setTimeout(0);
+        ['timeout', 'data', 'error', 'close'].forEach(event => socket.removeAllListeners(event));
+    }
+
+    private readReply(): Promise<SmtpReply> {
+        const reply = this.replies.shift();
+        if (reply !== undefined) {
+            return Promise.resolve(reply);
+        }
+
+        if (this.error !== null) {
+            return Promise.reject(this.error);
+        }
+
+        return new Promise<SmtpReply>((resolve, reject) => this.waiting.push({ resolve: resolve, reject: reject }));
+    }
+
+    /**
+     * Collect reply lines, reply is complete when line has a space after the reply code.
+     */
+    private receive(data: string): void {
+        const lines = (this.buffer + data).split('\r\n');
+        this.buffer = <string>lines.pop();
+
+        lines.forEach(line => {
+            this.replyLines.push(line.substring(4));
+
+            if (line.charAt(3) !== '-') {
+                const reply = { code: Number(line.substring(0, 3)), lines: this.replyLines };
+                const waiting = this.waiting.shift();
+                this.replyLines = [];
+
+                if (waiting !== undefined) {
+                    waiting.resolve(reply);
+                }
+                else {
+                    this.replies.push(reply);
+                }
+            }
+        });
+    }
+
+    private fail(error: Error): void {
+        this.error = this.error || error;
+        this.waiting.splice(0).forEach(waiting => waiting.reject(<Error>this.error));
+    }
+}
+
+/**
+ * Transport sending messages over SMTP, using the server token as user name and password.
+ * Connection is upgraded to TLS with STARTTLS, unless TLS is used from the start. Tag, Metadata and tracking options
+ * are passed with X-PM-* headers, Bcc recipients are added to the envelope only.
+ *
+ * @example
+ * const smtp = new SmtpTransport({ host: 'smtp.postmarkapp.com', port: 587 });
+ * const response = await smtp.send(message, 'server-token');
+ */
+export class SmtpTransport {
+    public static DefaultOptions: SmtpOptions = {
+        host: 'smtp.postmarkapp.com',
+        port: 587,
+        secure: false,
+        requireTLS: true,
+        timeout: 30000
+    };
+
+    private readonly options: SmtpOptions;
+
+    constructor(options: SmtpOptions = {}) {
+        this.options = { ...SmtpTransport.DefaultOptions, name: os.hostname(), ...options };
+    }
+
+    /**
+     * Send a single message.
+     *
+     * @param message - Message to send.
+     * @param token - Server token used as SMTP credentials.
+     *
+     * @returns A promise that will complete with the response in the same format the API uses, once the server accepts the message.
+     */
+    public send(message: Message, token: string): Promise<MessageSendingResponse> {
+        const from = AddressList.parse(message.From)[0];
+        const recipients = [...AddressList.parse(message.To), ...AddressList.parse(message.Cc), ...AddressList.parse(message.Bcc)];
+
+        if (from === undefined || recipients.length === 0) {
+            return Promise.reject(new Errors.InvalidEmailRequestError('Message must have From address and at least one recipient.',
+                ErrorCode.InvalidEmailRequest, 0));
+        }
+
+        const data = new MimeGenerator({ postmarkHeaders: true }).generate(message);
+        const envelopeFrom = AddressList.toASCII(from.Email);
+        const envelopeRecipients = recipients.map(recipient => AddressList.toASCII(recipient.Email));
+
+        return Promise.resolve().then(() => this.connect()).then(connection =>
+            this.deliver(connection, token, envelopeFrom, envelopeRecipients, data).then(reply => {
+                connection.command('QUIT', [221]).catch(() => undefined).then(() => connection.close());
+                return {
+                    To: (message.To !== undefined) ? AddressList.format(message.To) : undefined,
+                    SubmittedAt: new Date().toISOString(),
+                    MessageID: this.getMessageId(reply),
+                    ErrorCode: ErrorCode.Success,
+                    Message: 'OK'
+                };
+            }, error => {
+                connection.destroy();
+                throw error;
+            }));
+    }
+
+    private connect(): SmtpConnection {
+        const socket = this.options.secure ? tls.connect({ ...this.getTLSOptions(), port: this.options.port }) :
+            net.connect(<number>this.options.port, <string>this.options.host);
+
+        return new SmtpConnection(socket, !!this.options.secure, <number>this.options.timeout);
+    }
+
+    /**
+     * TLS options with server name used to verify server certificate. Server name can't be an IP address.
+     */
+    private getTLSOptions(): tls.ConnectionOptions {
+        const host = <string>this.options.host;
+        return { host: host, ...(net.isIP(host) === 0 ? { servername: host } : {}), ...this.options.tls };
+    }
+
+    /**
+     * Go through SMTP session, from greeting to accepted message data.
+     *
+     * @returns A promise that will complete with the reply to message data.
+     */
+    private deliver(connection: SmtpConnection, token: string, from: string, recipients: string[], data: string): Promise<SmtpReply> {
+        const ehlo = `EHLO ${this.options.name}`;
+
+        return connection.expectReply([220])
+            .then(() => connection.command(ehlo, [250]))
+            .then(reply => {
+                if (connection.secure || !this.hasExtension(reply, 'STARTTLS')) {
+                    if (!connection.secure && this.options.requireTLS) {
+                        throw new Errors.SmtpError('SMTP server does not support STARTTLS.', 0);
+                    }
+                    return reply;
+                }
+
+                return connection.command('STARTTLS', [220])
+                    .then(() => connection.upgrade(this.getTLSOptions(), <number>this.options.timeout))
+                    .then(() => connection.command(ehlo, [250]));
+            })
+            .then(reply => this.authenticate(connection, reply, token))
+            .then(() => connection.command(`MAIL FROM:<${from}>`, [250]))
+            .then(() => recipients.reduce((previous: Promise<SmtpReply | void>, recipient) =>
+                previous.then(() => connection.command(`RCPT TO:<${recipient}>`, [250, 251])), Promise.resolve()))
+            .then(() => connection.command('DATA', [354]))
+            .then(() => connection.command(`${data.replace(/^\./gm, '..')}\r\n.`, [250]));
+    }
+
+    /**
+     * Authenticate with AUTH PLAIN, or AUTH LOGIN when server doesn't support AUTH PLAIN.
+     */
+    private authenticate(connection: SmtpConnection, ehloReply: SmtpReply, token: string): Promise<SmtpReply> {
+        const encode = (value: string) => Buffer.from(value).toString('base64');
+        const authLine = ehloReply.lines.find(line => /^AUTH\b/i.test(line)) || '';
+
+        if (/\bPLAIN\b/i.test(authLine) || !/\bLOGIN\b/i.test(authLine)) {
+            return connection.command(`AUTH PLAIN ${encode(`\u0000${token}\u0000${token}`)}`, [235]);
+        }
+
+        return connection.command('AUTH LOGIN', [334])
+            .then(() => connection.command(encode(token), [334]))
+            .then(() => connection.command(encode(token), [235]));
+    }
+
+    private hasExtension(ehloReply: SmtpReply, extension: string): boolean {
+        return ehloReply.lines.some(line => line.split(' ')[0].toUpperCase() === extension);
+    }
+
+    /**
+     * Find message ID in reply to message data, for example "250 2.0.0 OK: queued as 0a129aee-e1cd-480d-b08d-4f48548ff48d".
+     */
+    private getMessageId(reply: SmtpReply): string {
+        const match = /queued as\s+<?([^\s>]+)/i.exec(reply.lines.join(' '));
+        return (match !== null) ? match[1] : '';
+    }
+}
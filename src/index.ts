@@ -1,5 +1,18 @@
 import ServerClient from './client/ServerClient';
 import AccountClient from './client/AccountClient';
+import { HttpTransport } from './client/transport/HttpTransport';
+import { SandboxTransport } from './client/transport/SandboxTransport';
+import { FixtureTransport } from './client/transport/FixtureTransport';
+import { SmtpTransport } from './client/transport/SmtpTransport';
+import { NodemailerTransport } from './client/transport/NodemailerTransport';
+import { MockServer } from './client/testing/MockServer';
+import { MockSmtpServer } from './client/testing/MockSmtpServer';
+import { MessageValidator } from './client/MessageValidator';
+import { MessageBuilder, TemplatedMessageBuilder } from './client/MessageBuilder';
+import { AttachmentFactory } from './client/AttachmentFactory';
+import { AddressList } from './client/AddressList';
+import { TemplateRenderer } from './client/TemplateRenderer';
+import { MimeGenerator } from './client/MimeGenerator';
 
 import * as Models from './client/models';
 import * as Errors from './client/models/client/Errors'
@@ -12,4 +25,5 @@ import {Attachment} from "./client/models";
 import {Header} from "./client/models";
 
 export {ServerClient, ServerClient as Client, AccountClient, AccountClient as AdminClient, Models, Errors};
-export {Message, TemplatedMessage, Attachment, Header}
\ No newline at end of file
+export {HttpTransport, SandboxTransport, FixtureTransport, SmtpTransport, NodemailerTransport, MockServer, MockSmtpServer, MessageValidator, AttachmentFactory, AddressList, TemplateRenderer, MimeGenerator};
+export {Message, TemplatedMessage, Attachment, Header, MessageBuilder, TemplatedMessageBuilder}
\ No newline at end of file
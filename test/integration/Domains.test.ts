@@ -4,20 +4,20 @@ import { expect } from 'chai';
 import 'mocha';
 import { CreateDomainRequest } from '../../src/client/models';
 
-const nconf = require('nconf');
-const testingKeys = nconf.env().file({ file: __dirname + '/../../testing_keys.json' });
+import { IntegrationFixtures } from './IntegrationFixtures';
 
-describe('Client - Domains', function () {
-    const accountToken: string = testingKeys.get('ACCOUNT_TOKEN');
-    const client = new postmark.AccountClient(accountToken);
-    const domainName: string = testingKeys.get('DOMAIN_NAME');
+const fixtures = new IntegrationFixtures('Domains', 'ACCOUNT_TOKEN');
+
+fixtures.describe('Client - Domains', function () {
+    const client = fixtures.accountClient();
+    const domainName: string = fixtures.get('DOMAIN_NAME');
 
     function returnPathToTest(domainName: string) {
         return `return.${domainName}`
     }
 
     function domainToTest() {
-        return new CreateDomainRequest(`${Date.now()}-${domainName}`);
+        return new CreateDomainRequest(`${fixtures.uniqueId()}-${domainName}`);
     }
 
     async function cleanup() {
@@ -0,0 +1,116 @@
+import * as postmark from '../../src/index';
+import { ClientOptions, FixtureMode } from '../../src/client/models';
+
+import 'mocha';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const nconf = require('nconf');
+const testingKeys = nconf.env().file({ file: __dirname + '/../../testing_keys.json' });
+
+/**
+ * Testing values and generated IDs used while recording, saved next to the fixture so that replayed runs send the same requests.
+ * API tokens are never saved.
+ */
+interface RecordedValues {
+    values: { [key: string]: string };
+    uniqueIds: string[];
+}
+
+/**
+ * Runs an integration suite against the API when its token is available in testing keys, and records API interactions
+ * to a fixture file in test/integration/fixtures. Without the token, recorded interactions are replayed without network access.
+ * Suites without token and without recorded fixture are skipped.
+ */
+export class IntegrationFixtures {
+    private static PlaceholderToken: string = 'fixture-token';
+    private static TokenKeys: string[] = ['SERVER_TOKEN', 'ACCOUNT_TOKEN'];
+
+    public readonly mode?: FixtureMode;
+    private readonly valuesFile: string;
+    private readonly recorded: RecordedValues;
+    private readonly transport?: postmark.FixtureTransport;
+    private replayedIds: number = 0;
+
+    /**
+     * @param suite - Name of the fixture file, without extension.
+     * @param tokenKey - Testing key of the token the suite uses. Interactions are recorded when it is provided.
+     */
+    constructor(suite: string, tokenKey: ('SERVER_TOKEN' | 'ACCOUNT_TOKEN')) {
+        const fixtureFile = path.join(__dirname, 'fixtures', `${suite}.json`);
+        this.valuesFile = path.join(__dirname, 'fixtures', `${suite}.values.json`);
+
+        if (testingKeys.get(tokenKey)) {
+            this.mode = FixtureMode.Record;
+        }
+        else if (fs.existsSync(fixtureFile) && fs.existsSync(this.valuesFile)) {
+            this.mode = FixtureMode.Replay;
+        }
+
+        this.recorded = (this.mode === FixtureMode.Replay) ?
+            JSON.parse(fs.readFileSync(this.valuesFile, 'utf8')) : { values: {}, uniqueIds: [] };
+        this.transport = (this.mode === undefined) ? undefined :
+            new postmark.FixtureTransport({ file: fixtureFile, mode: this.mode, matchQuery: false, matchBody: false });
+    }
+
+    /**
+     * Define the suite, or skip it when there is neither token nor recorded fixture.
+     */
+    public describe(title: string, suite: (this: Mocha.Suite) => void): void {
+        (this.mode === undefined) ? describe.skip(title, suite) : describe(title, suite);
+    }
+
+    /**
+     * Get value from testing keys while recording, or the value used in the recorded run while replaying.
+     * Tokens are replaced with a placeholder while replaying, since fixtures never contain them.
+     */
+    public get(key: string): string {
+        if (IntegrationFixtures.TokenKeys.indexOf(key) !== -1) {
+            return (this.mode === FixtureMode.Record && testingKeys.get(key)) || IntegrationFixtures.PlaceholderToken;
+        }
+
+        if (this.mode === FixtureMode.Record) {
+            this.recorded.values[key] = testingKeys.get(key);
+            this.saveValues();
+        }
+
+        return this.recorded.values[key] || '';
+    }
+
+    /**
+     * Generate ID used to make names of created entities unique, replayed runs get the IDs generated in the recorded run.
+     */
+    public uniqueId(): string {
+        if (this.mode === FixtureMode.Replay) {
+            return this.recorded.uniqueIds[this.replayedIds++] || '';
+        }
+
+        const id = Date.now().toString();
+        if (this.mode === FixtureMode.Record) {
+            this.recorded.uniqueIds.push(id);
+            this.saveValues();
+        }
+
+        return id;
+    }
+
+    public serverClient(): postmark.ServerClient {
+        return new postmark.ServerClient(this.get('SERVER_TOKEN'), this.clientOptions());
+    }
+
+    public accountClient(): postmark.AccountClient {
+        return new postmark.AccountClient(this.get('ACCOUNT_TOKEN'), this.clientOptions());
+    }
+
+    private clientOptions(): ClientOptions.Configuration {
+        return { ...postmark.ServerClient.DefaultOptions, transport: this.transport };
+    }
+
+    private saveValues(): void {
+        if (!fs.existsSync(path.dirname(this.valuesFile))) {
+            fs.mkdirSync(path.dirname(this.valuesFile));
+        }
+
+        fs.writeFileSync(this.valuesFile, JSON.stringify(this.recorded, null, 2));
+    }
+}
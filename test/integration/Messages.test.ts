@@ -4,12 +4,12 @@ import { expect } from 'chai';
 import 'mocha';
 import { OutboundMessagesFilteringParameters, InboundMessagesFilteringParameters } from '../../src/client/models';
 
-const nconf = require('nconf');
-const testingKeys = nconf.env().file({ file: __dirname + '/../../testing_keys.json' });
+import { IntegrationFixtures } from './IntegrationFixtures';
 
-describe('Client - Message Statistics', function () {
-    const serverToken: string = testingKeys.get('SERVER_TOKEN');
-    const client = new postmark.ServerClient(serverToken);
+const fixtures = new IntegrationFixtures('Messages', 'SERVER_TOKEN');
+
+fixtures.describe('Client - Message Statistics', function () {
+    const client = fixtures.serverClient();
     var filter = new OutboundMessagesFilteringParameters(1, 0);
 
     it('getOutboundMessages', async () => {
@@ -3,12 +3,12 @@ import * as postmark from '../../src/index';
 import { expect } from 'chai';
 import 'mocha';
 
-const nconf = require('nconf');
-const testingKeys = nconf.env().file({ file: __dirname + '/../../testing_keys.json' });
+import { IntegrationFixtures } from './IntegrationFixtures';
 
-describe('Client - Message Statistics', function () {
-    const serverToken: string = testingKeys.get('SERVER_TOKEN');
-    const client = new postmark.ServerClient(serverToken);
+const fixtures = new IntegrationFixtures('MessagesOpens', 'SERVER_TOKEN');
+
+fixtures.describe('Client - Message Statistics', function () {
+    const client = fixtures.serverClient();
 
     it('getMessageOpens', async () => {
         const result = await client.getMessageOpens();
@@ -3,15 +3,15 @@ import * as postmark from '../../src/index';
 import { expect } from 'chai';
 import 'mocha';
 
-const nconf = require('nconf');
-const testingKeys = nconf.env().file({ file: __dirname + '/../../testing_keys.json' });
+import { IntegrationFixtures } from './IntegrationFixtures';
 
-describe('Sending', function () {
-    const serverToken: string = testingKeys.get('SERVER_TOKEN');
-    const client = new postmark.ServerClient(serverToken);
+const fixtures = new IntegrationFixtures('Sending', 'SERVER_TOKEN');
 
-    const fromAddress: string = testingKeys.get('SENDER_EMAIL_ADDRESS');
-    const toAddress: string = testingKeys.get('EMAIL_RECIPIENT_ADDRESS');
+fixtures.describe('Sending', function () {
+    const client = fixtures.serverClient();
+
+    const fromAddress: string = fixtures.get('SENDER_EMAIL_ADDRESS');
+    const toAddress: string = fixtures.get('EMAIL_RECIPIENT_ADDRESS');
 
     function messageToSend() {
         return new postmark.Models.Message(fromAddress, 'Test subject', 'Test html body', undefined, toAddress);
@@ -3,12 +3,12 @@ import * as postmark from '../../src/index';
 import { expect } from 'chai';
 import 'mocha';
 
-const nconf = require('nconf');
-const testingKeys = nconf.env().file({ file: __dirname + '/../../testing_keys.json' });
+import { IntegrationFixtures } from './IntegrationFixtures';
 
-describe('Server', function () {
-    const serverToken: string = testingKeys.get('SERVER_TOKEN');
-    const client: postmark.ServerClient = new postmark.ServerClient(serverToken);
+const fixtures = new IntegrationFixtures('Server', 'SERVER_TOKEN');
+
+fixtures.describe('Server', function () {
+    const client: postmark.ServerClient = fixtures.serverClient();
 
     it('getServer', async () => {
         const server: postmark.Models.Server = await client.getServer();
@@ -4,20 +4,20 @@ import { expect } from 'chai';
 import 'mocha';
 import { CreateServerRequest, UpdateServerRequest } from '../../src/client/models';
 
-const nconf = require('nconf');
-const testingKeys = nconf.env().file({ file: __dirname + '/../../testing_keys.json' });
+import { IntegrationFixtures } from './IntegrationFixtures';
 
-describe('Servers', function () {
-    const accountToken: string = testingKeys.get('ACCOUNT_TOKEN');
-    const client = new postmark.AccountClient(accountToken);
+const fixtures = new IntegrationFixtures('Servers', 'ACCOUNT_TOKEN');
+
+fixtures.describe('Servers', function () {
+    const client = fixtures.accountClient();
     const serverNamePrefix: string = 'node-js-test-server';
 
     function serverToTest() {
-        return new CreateServerRequest(`${serverNamePrefix}-${Date.now()}`);
+        return new CreateServerRequest(`${serverNamePrefix}-${fixtures.uniqueId()}`);
     };
 
     async function cleanup() {
-        let client = new postmark.AccountClient(accountToken);
+        let client = fixtures.accountClient();
         const servers = await client.getServers();
 
         for (let i = 0; i < servers.Servers.length; i++) {
@@ -4,21 +4,21 @@ import { expect } from 'chai';
 import 'mocha';
 import { CreateSignatureRequest } from '../../src/client/models';
 
-const nconf = require('nconf');
-const testingKeys = nconf.env().file({ file: __dirname + '/../../testing_keys.json' });
+import { IntegrationFixtures } from './IntegrationFixtures';
 
-describe('Client - Signatures', function () {
-    const accountToken: string = testingKeys.get('ACCOUNT_TOKEN');
-    const testDomainName: string = testingKeys.get('DOMAIN_NAME');
-    const client: postmark.AccountClient = new postmark.AccountClient(accountToken);
+const fixtures = new IntegrationFixtures('Signatures', 'ACCOUNT_TOKEN');
+
+fixtures.describe('Client - Signatures', function () {
+    const testDomainName: string = fixtures.get('DOMAIN_NAME');
+    const client: postmark.AccountClient = fixtures.accountClient();
     const domainName: string = testDomainName;
 
     function signatureToTest() {
-        return new CreateSignatureRequest('John Smith', `mailing+${Date.now()}@${domainName}`);
+        return new CreateSignatureRequest('John Smith', `mailing+${fixtures.uniqueId()}@${domainName}`);
     }
 
     async function cleanup() {
-        let client = new postmark.AccountClient(accountToken);
+        let client = fixtures.accountClient();
         let domains = await client.getDomains();
 
         for (let i = 0; i < domains.Domains.length; i++) {
@@ -4,17 +4,17 @@ import { expect } from 'chai';
 import 'mocha';
 import { CreateTemplateRequest } from '../../src/client/models';
 
-const nconf = require('nconf');
-const testingKeys = nconf.env().file({ file: __dirname + '/../../testing_keys.json' });
+import { IntegrationFixtures } from './IntegrationFixtures';
 
-describe('Client - Templates', function () {
-    const serverToken: string = testingKeys.get('SERVER_TOKEN');
-    let client = new postmark.ServerClient(serverToken);
+const fixtures = new IntegrationFixtures('Templates', 'SERVER_TOKEN');
+
+fixtures.describe('Client - Templates', function () {
+    let client = fixtures.serverClient();
     const templatePrefix: string = 'testing-template-node-js';
 
     function templateToCreate() {
         return new CreateTemplateRequest(
-            `${templatePrefix}-${Date.now()}`,
+            `${templatePrefix}-${fixtures.uniqueId()}`,
             'Subject',
             'Html body',
             'Text body',
@@ -22,7 +22,7 @@ describe('Client - Templates', function () {
     };
 
     async function cleanup() {
-        const client = new postmark.ServerClient(serverToken);
+        const client = fixtures.serverClient();
         const templates = await client.getTemplates();
 
         for (let i = 0; i < templates.Templates.length; i++) {
@@ -79,8 +79,8 @@ describe('Client - Templates', function () {
     });
 
     describe('sending', () => {
-        const fromAddress = testingKeys.get('SENDER_EMAIL_ADDRESS');
-        const toAddress = testingKeys.get('EMAIL_RECIPIENT_ADDRESS');
+        const fromAddress = fixtures.get('SENDER_EMAIL_ADDRESS');
+        const toAddress = fixtures.get('EMAIL_RECIPIENT_ADDRESS');
 
         it("sendEmailWithTemplate", async () => {
             const template = await client.createTemplate(templateToCreate());
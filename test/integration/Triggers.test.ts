@@ -4,20 +4,20 @@ import { expect } from 'chai';
 import 'mocha';
 import { CreateTagTriggerRequest, CreateInboundRuleRequest } from '../../src/client/models';
 
-const nconf = require('nconf');
-const testingKeys = nconf.env().file({ file: __dirname + '/../../testing_keys.json' });
+import { IntegrationFixtures } from './IntegrationFixtures';
 
-describe('Client - Triggers', function () {
-    const serverToken: string = testingKeys.get('SERVER_TOKEN');
-    let client = new postmark.ServerClient(serverToken);
+const fixtures = new IntegrationFixtures('Triggers', 'SERVER_TOKEN');
+
+fixtures.describe('Client - Triggers', function () {
+    let client = fixtures.serverClient();
     const triggerName: string = 'node-js';
 
     function tagTriggerToTest() {
-        return new CreateTagTriggerRequest(`${triggerName}_${Date.now()}`, true)
+        return new CreateTagTriggerRequest(`${triggerName}_${fixtures.uniqueId()}`, true)
     };
 
     function inboundRuleTriggerToTest() {
-        return new CreateInboundRuleRequest(`${triggerName}-${Date.now()}.com`);
+        return new CreateInboundRuleRequest(`${triggerName}-${fixtures.uniqueId()}.com`);
     };
 
     async function cleanupTagTriggers() {
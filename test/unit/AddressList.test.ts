@@ -0,0 +1,50 @@
+import * as postmark from "../../src";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('AddressList', () => {
+    it('parses quoted display names', () => {
+        expect(postmark.AddressList.parse('"Smith, John" <john@example.com>, jane@example.com; "Say \\"Hi\\"" <hi@example.com>')).to.eql([
+            { Email: 'john@example.com', Name: 'Smith, John' },
+            { Email: 'jane@example.com', Name: '' },
+            { Email: 'hi@example.com', Name: 'Say "Hi"' }
+        ]);
+    });
+
+    it('parses groups, comments and objects', () => {
+        expect(postmark.AddressList.parse(['Team: John Smith (Sales, EU) <john@example.com>, jane@example.com;', { Email: 'bob@example.com' }])).to.eql([
+            { Email: 'john@example.com', Name: 'John Smith' },
+            { Email: 'jane@example.com', Name: '' },
+            { Email: 'bob@example.com', Name: '' }
+        ]);
+        expect(postmark.AddressList.parse(undefined)).to.eql([]);
+    });
+
+    it('formats addresses', () => {
+        expect(postmark.AddressList.format([
+            { Email: 'john@example.com', Name: 'Smith, John' },
+            { Email: 'jane@bücher.de', Name: 'Jane' },
+            { Email: 'bob@example.com', Name: 'Bob "The Builder" O\\Brien' },
+            'ann@example.com'
+        ])).to.equal('"Smith, John" <john@example.com>, Jane <jane@xn--bcher-kva.de>, "Bob \\"The Builder\\" O\\\\Brien" <bob@example.com>, ann@example.com');
+    });
+
+    it('formats parsed addresses back to the same list', () => {
+        const addresses = '"Smith, John" <john@example.com>, jane@example.com';
+        expect(postmark.AddressList.format(postmark.AddressList.parse(addresses))).to.equal(addresses);
+    });
+
+    it('sends addresses provided as objects as address lists', async () => {
+        const sandbox = new postmark.SandboxTransport();
+        const client = new postmark.ServerClient('testToken', { useHttps: true, requestHost: 'api.postmarkapp.com', timeout: 10, transport: sandbox });
+        const message = new postmark.Message({ Email: 'from@example.com', Name: 'Sender' }, 'Subject', 'Html', undefined,
+            [{ Email: 'john@example.com', Name: 'Smith, John' }, 'jane@example.com']);
+
+        const response = await client.sendEmail(message);
+
+        expect(response.To).to.equal('"Smith, John" <john@example.com>, jane@example.com');
+        expect((<postmark.Message>sandbox.outbox[0].message).From).to.equal('Sender <from@example.com>');
+        expect(message.From).to.eql({ Email: 'from@example.com', Name: 'Sender' });
+    });
+});
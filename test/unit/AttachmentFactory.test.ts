@@ -0,0 +1,117 @@
+import * as postmark from "../../src";
+
+import { expect } from 'chai';
+import 'mocha';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+
+describe('AttachmentFactory', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 0x00, 0x01]);
+
+    it('creates attachment from buffer', () => {
+        const attachment = postmark.AttachmentFactory.fromBuffer(Buffer.from('text'), { name: 'readme.txt' });
+
+        expect(attachment).to.eql(new postmark.Attachment('readme.txt', 'dGV4dA==', 'text/plain'));
+    });
+
+    it('creates attachment from file', async () => {
+        const filePath = path.join(os.tmpdir(), `postmark-logo-${process.pid}.dat`);
+        fs.writeFileSync(filePath, png);
+
+        try {
+            const attachment = await postmark.AttachmentFactory.fromFile(filePath, { name: undefined, inline: true });
+
+            expect(attachment.Name).to.equal(path.basename(filePath));
+            expect(attachment.ContentType).to.equal('image/png');
+            expect(attachment.ContentID).to.equal(`cid:${path.basename(filePath)}`);
+            expect(Buffer.from(attachment.Content, 'base64')).to.eql(png);
+        } finally {
+            fs.unlinkSync(filePath);
+        }
+    });
+
+    it('creates attachment from stream', async () => {
+        const stream = new PassThrough();
+        const attachment = postmark.AttachmentFactory.fromStream(stream, { name: 'report', contentType: 'application/x-report' });
+        stream.write('first ');
+        stream.end('second');
+
+        expect(await attachment).to.eql(new postmark.Attachment('report', Buffer.from('first second').toString('base64'), 'application/x-report'));
+    });
+
+    it('rejects failed stream', async () => {
+        const stream = new PassThrough();
+        const attachment = postmark.AttachmentFactory.fromStream(stream, { name: 'report.txt' });
+        stream.emit('error', new Error('Read failed'));
+
+        try {
+            await attachment;
+            throw new Error('Call should fail.');
+        } catch (error) {
+            expect(error.message).to.equal('Read failed');
+        }
+    });
+
+    it('detects content type', () => {
+        expect(postmark.AttachmentFactory.detectContentType('image.bin', png)).to.equal('image/png');
+        expect(postmark.AttachmentFactory.detectContentType('document.PDF')).to.equal('application/pdf');
+        expect(postmark.AttachmentFactory.detectContentType('unknown', Buffer.from('text'))).to.equal('application/octet-stream');
+    });
+
+    it('prefers known extension over content', () => {
+        const zip = Buffer.from([0x50, 0x4B, 0x03, 0x04, 0x00]);
+
+        expect(postmark.AttachmentFactory.detectContentType('report.docx', zip))
+            .to.equal('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+        expect(postmark.AttachmentFactory.detectContentType('archive.bin', zip)).to.equal('application/zip');
+        expect(postmark.AttachmentFactory.detectContentType('notes.txt', Buffer.from('BM notes'))).to.equal('text/plain');
+        expect(postmark.AttachmentFactory.detectContentType('notes', Buffer.from('BM notes'))).to.equal('application/octet-stream');
+    });
+
+    it('rejects file attachment with invalid options', async () => {
+        const filePath = path.join(os.tmpdir(), `postmark-notes-${process.pid}.txt`);
+        fs.writeFileSync(filePath, 'notes');
+
+        try {
+            await postmark.AttachmentFactory.fromFile(filePath, { name: ' ' });
+            throw new Error('Call should fail.');
+        } catch (error) {
+            expect(error.message).to.equal('Attachment name must be provided.');
+        } finally {
+            fs.unlinkSync(filePath);
+        }
+    });
+
+    it('embeds inline images', () => {
+        const attachments = [
+            postmark.AttachmentFactory.fromBuffer(png, { name: 'logo.png', inline: true }),
+            postmark.AttachmentFactory.fromBuffer(png, { name: 'photo.png' })
+        ];
+
+        expect(postmark.AttachmentFactory.embedInlineImages(
+            '<img src="images/logo.png" alt="Logo"><img src=\'photo.png\'><a href="logo.png">Logo</a>', attachments))
+            .to.equal('<img src="cid:logo.png" alt="Logo"><img src=\'photo.png\'><a href="logo.png">Logo</a>');
+    });
+
+    it('embeds inline images in built messages', () => {
+        const message = postmark.MessageBuilder.from('from@example.com')
+            .to('to@example.com')
+            .subject('Subject')
+            .htmlBody('<img src="logo.png">')
+            .attach(postmark.AttachmentFactory.fromBuffer(png, { name: 'logo.png', contentId: 'cid:company-logo' }))
+            .build();
+
+        expect(message.HtmlBody).to.equal('<img src="cid:company-logo">');
+    });
+
+    it('prefixes content ID with cid:', () => {
+        expect(postmark.AttachmentFactory.fromBuffer(png, { name: 'logo.png', contentId: 'company-logo' }).ContentID)
+            .to.equal('cid:company-logo');
+        expect(postmark.AttachmentFactory.fromBuffer(png, { name: 'logo.png', contentId: '<company-logo>' }).ContentID)
+            .to.equal('cid:company-logo');
+        expect(postmark.AttachmentFactory.fromBuffer(png, { name: 'logo.png', contentId: 'CID:company-logo' }).ContentID)
+            .to.equal('CID:company-logo');
+    });
+});
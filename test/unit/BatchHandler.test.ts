@@ -0,0 +1,151 @@
+import * as postmark from "../../src";
+import { BatchHandler } from "../../src/client/BatchHandler";
+import { TransportRequest } from "../../src/client/models";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('BatchHandler', () => {
+    const range = (length: number): number[] => Array.apply(null, Array(length)).map((value: any, index: number) => index);
+    const send = <R>(batchHandler: BatchHandler, messages: number[], sendChunk: (chunk: number[]) => Promise<R[]>): Promise<R[]> =>
+        batchHandler.sendChunks(messages, sendChunk).then(chunks => batchHandler.joinResponses(chunks));
+
+    it('splits by number of messages', () => {
+        const chunks = new BatchHandler({ maxMessages: 2 }).split(range(5));
+
+        expect(chunks).to.eql([[0, 1], [2, 3], [4]]);
+    });
+
+    it('splits by request size', () => {
+        const messages = ['aaaa', 'bbbb', 'cccc'];
+
+        expect(new BatchHandler({ maxBytes: 15 }).split(messages)).to.eql([['aaaa', 'bbbb'], ['cccc']]);
+        expect(new BatchHandler({ maxBytes: 15 }).split(messages, 1)).to.eql([['aaaa'], ['bbbb'], ['cccc']]);
+        expect(new BatchHandler({ maxBytes: 2 }).split(messages)).to.eql([['aaaa'], ['bbbb'], ['cccc']]);
+    });
+
+    it('sends chunks with bounded concurrency', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+
+        const responses = await send(new BatchHandler({ maxMessages: 2, concurrency: 2 }), range(9), chunk => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            return new Promise<string[]>(resolve => setTimeout(() => {
+                inFlight--;
+                resolve(chunk.map(message => `response ${message}`));
+            }, (10 - chunk[0]) * 2));
+        });
+
+        expect(responses).to.eql(range(9).map(message => `response ${message}`));
+        expect(maxInFlight).to.equal(2);
+    });
+
+    it('stops sending after failed chunk', async () => {
+        const sentChunks: number[][] = [];
+
+        try {
+            await send(new BatchHandler({ maxMessages: 1, concurrency: 1 }), range(3), chunk => {
+                sentChunks.push(chunk);
+                return chunk[0] === 1 ? Promise.reject(new Error('failure')) : Promise.resolve(chunk);
+            });
+            throw new Error('Call should fail.');
+        } catch (error) {
+            expect(error).to.be.instanceOf(postmark.Errors.BatchInterruptedError);
+            expect(error.message).to.equal('failure');
+            expect(error.responses).to.eql([0, undefined, undefined]);
+            expect(sentChunks).to.eql([[0], [1]]);
+        }
+    });
+
+    it('rejects with chunk error when no chunk was accepted', async () => {
+        try {
+            await send(new BatchHandler({ maxMessages: 1 }), range(2), () => Promise.reject(new Error('failure')));
+            throw new Error('Call should fail.');
+        } catch (error) {
+            expect(error).not.to.be.instanceOf(postmark.Errors.BatchInterruptedError);
+            expect(error.message).to.equal('failure');
+        }
+    });
+
+    it('completes chunks in flight when a chunk fails', async () => {
+        const chunks = await new BatchHandler({ maxMessages: 1, concurrency: 2 }).sendChunks(range(3), chunk => chunk[0] === 0 ?
+            Promise.reject(new Error('failure')) : new Promise<number[]>(resolve => setTimeout(() => resolve(chunk), 5)));
+
+        expect((<Error>chunks[0].error).message).to.equal('failure');
+        expect(chunks.slice(1)).to.eql([{ messages: [1], responses: [1] }, { messages: [2] }]);
+    });
+
+    it('splits client batches', async () => {
+        const requests: TransportRequest[] = [];
+        const client = new postmark.ServerClient('testToken', {
+            useHttps: true,
+            requestHost: 'api.postmarkapp.com',
+            timeout: 10,
+            transport: {
+                request: (request: TransportRequest) => {
+                    requests.push(request);
+                    return Promise.resolve({
+                        statusCode: 200,
+                        headers: {},
+                        body: (<any>request.body).Messages.map((message: postmark.TemplatedMessage) => ({ To: message.To, ErrorCode: 0 }))
+                    });
+                }
+            }
+        });
+        const messages = range(1201).map(index => new postmark.TemplatedMessage('from@example.com', 'alias', {}, `to${index}@example.com`));
+
+        const responses = await client.sendEmailBatchWithTemplates(messages);
+
+        expect(requests.map(request => (<any>request.body).Messages.length)).to.eql([500, 500, 201]);
+        expect(responses.map(response => response.To)).to.eql(messages.map(message => message.To));
+        expect(await client.sendEmailBatch([])).to.eql([]);
+        expect(requests.length).to.equal(3);
+    });
+
+    it('reports responses of all chunks once', async () => {
+        const client = new postmark.ServerClient('testToken', {
+            useHttps: true,
+            requestHost: 'api.postmarkapp.com',
+            timeout: 10,
+            batch: { maxMessages: 2 },
+            transport: new postmark.SandboxTransport()
+        });
+        const messages = range(3).map(index => new postmark.Message('from@example.com', 'Subject', 'Html', undefined, `to${index}@example.com`));
+        let reported = 0;
+
+        const response = await client.withResponse(options => client.sendEmailBatch(messages, undefined, options), {
+            onResponse: () => reported++
+        });
+
+        expect(response.status).to.equal(200);
+        expect(response.data.map(messageResponse => messageResponse.To)).to.eql(messages.map(message => message.To));
+        expect(reported).to.equal(1);
+    });
+
+    it('keeps responses of accepted chunks when a chunk fails', async () => {
+        let requests = 0;
+        const client = new postmark.ServerClient('testToken', {
+            useHttps: true,
+            requestHost: 'api.postmarkapp.com',
+            timeout: 10,
+            batch: { maxMessages: 1, concurrency: 1 },
+            transport: {
+                request: () => Promise.resolve(++requests === 1 ?
+                    { statusCode: 200, headers: {}, body: [{ To: 'to0@example.com', ErrorCode: 0, MessageID: 'id' }] } :
+                    { statusCode: 500, headers: {}, body: { ErrorCode: 0, Message: 'Internal server error' } })
+            }
+        });
+        const messages = range(2).map(index => new postmark.Message('from@example.com', 'Subject', 'Html', undefined, `to${index}@example.com`));
+
+        try {
+            await client.sendEmailBatch(messages);
+            throw new Error('Call should fail.');
+        } catch (error) {
+            expect(error).to.be.instanceOf(postmark.Errors.BatchInterruptedError);
+            expect(error.error).to.be.instanceOf(postmark.Errors.InternalServerError);
+            expect(error.statusCode).to.equal(500);
+            expect(error.responses.map((response: any) => response && response.MessageID)).to.eql(['id', undefined]);
+        }
+    });
+});
@@ -0,0 +1,110 @@
+import * as postmark from "../../src";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('BatchResult', () => {
+    let inactiveRecipients: string[];
+    let client: postmark.ServerClient;
+
+    const createClient = (strict: boolean) => new postmark.ServerClient('testToken', {
+        useHttps: true,
+        requestHost: 'api.postmarkapp.com',
+        timeout: 10,
+        batch: { strict: strict },
+        transport: new postmark.SandboxTransport({ inactiveRecipients: inactiveRecipients })
+    });
+
+    const messages = [
+        new postmark.Message('from@example.com', 'First', 'Html', undefined, 'first@example.com'),
+        new postmark.Message('from@example.com', 'Second', 'Html', undefined, 'inactive@example.com'),
+        new postmark.Message('from@example.com', 'Third', 'Html', undefined, 'third@example.com')
+    ];
+
+    beforeEach(() => {
+        inactiveRecipients = ['inactive@example.com'];
+        client = createClient(false);
+    });
+
+    it('pairs messages with responses', async () => {
+        const result = await client.sendEmailBatchWithResult(messages);
+
+        expect(result.entries.map(entry => entry.message)).to.eql(messages);
+        expect(result.succeeded.map(entry => entry.index)).to.eql([0, 2]);
+        expect(result.failed.map(entry => entry.message.Subject)).to.eql(['Second']);
+        expect(result.failed[0].response.ErrorCode).to.equal(postmark.Models.ErrorCode.InactiveRecipient);
+        expect(result.hasFailures).to.equal(true);
+    });
+
+    it('pairs templated messages with responses', async () => {
+        const result = await client.sendEmailBatchWithTemplatesWithResult([
+            new postmark.TemplatedMessage('from@example.com', 'welcome', {}, 'to@example.com'),
+            new postmark.TemplatedMessage('from@example.com', 'welcome', {})
+        ]);
+
+        expect(result.succeeded.length).to.equal(1);
+        expect(result.failed[0].index).to.equal(1);
+    });
+
+    it('throws in strict mode', async () => {
+        try {
+            await createClient(true).sendEmailBatchWithResult(messages);
+            throw new Error('Call should fail.');
+        } catch (error) {
+            expect(error).to.be.instanceOf(postmark.Errors.BatchPartialFailureError);
+            expect(error.message).to.equal('1 of 3 batch messages were rejected.');
+            expect(error.result.succeeded.length).to.equal(2);
+        }
+    });
+
+    it('resends failed messages', async () => {
+        const result = await client.sendEmailBatchWithResult(messages);
+        inactiveRecipients.splice(0, 1);
+
+        const resent = await result.resendFailed();
+
+        expect(resent.hasFailures).to.equal(false);
+        expect(resent.entries.map(entry => entry.response.MessageID)).to.eql([
+            result.entries[0].response.MessageID, resent.entries[1].response.MessageID, result.entries[2].response.MessageID
+        ]);
+        expect(resent.entries[1].response.MessageID).not.to.equal(undefined);
+    });
+
+    it('marks messages of failed requests as failed, and resends them', async () => {
+        let failRequests = true;
+        const sandbox = new postmark.SandboxTransport();
+        const batchClient = new postmark.ServerClient('testToken', {
+            useHttps: true,
+            requestHost: 'api.postmarkapp.com',
+            timeout: 10,
+            batch: { maxMessages: 1, concurrency: 1 },
+            transport: {
+                request: (request: postmark.Models.TransportRequest) =>
+                    (failRequests && (<any>request.body)[0].Subject === 'Second') ?
+                        Promise.resolve({ statusCode: 500, headers: {}, body: { ErrorCode: 0, Message: 'Internal server error' } }) :
+                        sandbox.request(request)
+            }
+        });
+
+        const response = await batchClient.withResponse(options => batchClient.sendEmailBatchWithResult(messages, undefined, options));
+        const result = response.data;
+
+        expect(result).to.be.instanceOf(postmark.Models.BatchResult);
+        expect(result.succeeded.map(entry => entry.index)).to.eql([0, 2]);
+        expect(result.failed[0].error).to.be.instanceOf(postmark.Errors.InternalServerError);
+        expect(result.failed[0].response.Message).to.equal('Internal server error');
+
+        failRequests = false;
+        const resent = await result.resendFailed();
+
+        expect(resent.hasFailures).to.equal(false);
+        expect(resent.entries[1].error).to.equal(undefined);
+        expect(sandbox.outbox.length).to.equal(3);
+    });
+
+    it('keeps result without failures', async () => {
+        const result = await client.sendEmailBatchWithResult([messages[0]]);
+
+        expect(await result.resendFailed()).to.equal(result);
+    });
+});
@@ -0,0 +1,110 @@
+import * as postmark from "../../src";
+import { CredentialProvider } from "../../src/client/CredentialProvider";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('CredentialProvider', () => {
+    let tokens: string[];
+    let sentTokens: string[];
+    let providerCalls: number;
+    let rejectedToken: string;
+
+    const tokenProvider = () => {
+        providerCalls++;
+        return Promise.resolve(tokens.shift() || 'defaultToken');
+    };
+
+    const createClient = (tokenCacheTtl?: number) => new postmark.ServerClient(tokenProvider, {
+        useHttps: true,
+        requestHost: 'api.postmarkapp.com',
+        timeout: 10,
+        tokenCacheTtl: tokenCacheTtl,
+        transport: {
+            request: request => {
+                const token = request.headers['X-Postmark-Server-Token'];
+                sentTokens.push(token);
+                return Promise.resolve(token === rejectedToken ?
+                    { statusCode: 401, headers: {}, body: { ErrorCode: 10, Message: 'Invalid token' } } :
+                    { statusCode: 200, headers: {}, body: {} });
+            }
+        }
+    });
+
+    beforeEach(() => {
+        tokens = [];
+        sentTokens = [];
+        providerCalls = 0;
+        rejectedToken = 'rejectedToken';
+    });
+
+    it('calls token provider for every request', async () => {
+        tokens.push('firstToken', 'secondToken');
+        const client = createClient();
+
+        await client.getBounceTags();
+        await client.getBounceTags();
+
+        expect(sentTokens).to.eql(['firstToken', 'secondToken']);
+    });
+
+    it('caches token for configured time', async () => {
+        tokens.push('firstToken', 'secondToken');
+        const client = createClient(60);
+
+        await client.getBounceTags();
+        await client.getBounceTags();
+
+        expect(sentTokens).to.eql(['firstToken', 'firstToken']);
+        expect(providerCalls).to.equal(1);
+    });
+
+    it('refreshes invalid token once', async () => {
+        tokens.push('rejectedToken', 'newToken');
+        const client = createClient(60);
+
+        await client.getBounceTags();
+        await client.getBounceTags();
+
+        expect(sentTokens).to.eql(['rejectedToken', 'newToken', 'newToken']);
+    });
+
+    it('fails when refreshed token is invalid', async () => {
+        tokens.push('rejectedToken', 'rejectedToken', 'rejectedToken');
+
+        try {
+            await createClient().getBounceTags();
+            throw new Error('Call should fail.');
+        } catch (error) {
+            expect(error).to.be.instanceOf(postmark.Errors.InvalidAPIKeyError);
+            expect(sentTokens.length).to.equal(2);
+        }
+    });
+
+    it('does not refresh static token', async () => {
+        const provider = new CredentialProvider(' staticToken ');
+
+        expect(provider.canRefresh).to.equal(false);
+        expect(await provider.refresh()).to.equal('staticToken');
+    });
+
+    it('shares token provider call between concurrent requests', async () => {
+        const provider = new CredentialProvider(tokenProvider);
+
+        const results = await Promise.all([provider.getToken(), provider.getToken()]);
+
+        expect(results).to.eql(['defaultToken', 'defaultToken']);
+        expect(providerCalls).to.equal(1);
+    });
+
+    it('rejects empty token', async () => {
+        const provider = new CredentialProvider(() => ' ');
+
+        try {
+            await provider.getToken();
+            throw new Error('Call should fail.');
+        } catch (error) {
+            expect(error.message).to.equal('A valid API token must be returned by the token provider.');
+        }
+    });
+});
@@ -1,5 +1,5 @@
 import { ErrorHandler } from "../../src/client/ErrorHandler";
-import { Errors } from "../../src";
+import { Errors, Models } from "../../src";
 
 import { expect } from 'chai';
 import 'mocha';
@@ -53,5 +53,99 @@ describe('ErrorHandler', () => {
             expect(postmarkError.name).to.equal('InternalServerError')
             expect(postmarkError.message).to.equal(error.body.Message);
         });
+
+        it('404', () => {
+            const errorHandler = new ErrorHandler();
+            const error: any = { body: { Message: "Not found", ErrorCode: 0 }, statusCode: 404 };
+
+            let postmarkError = errorHandler.generateError(error);
+            expect(postmarkError).to.be.an.instanceof(Errors.NotFoundError);
+            expect(postmarkError.name).to.equal('NotFoundError');
+        });
+
+        it('413', () => {
+            const errorHandler = new ErrorHandler();
+            const error: any = { body: { Message: "Too large", ErrorCode: 0 }, statusCode: 413 };
+
+            let postmarkError = errorHandler.generateError(error);
+            expect(postmarkError).to.be.an.instanceof(Errors.RequestTooLargeError);
+        });
+
+        it('429', () => {
+            const errorHandler = new ErrorHandler();
+            const error: any = { body: { Message: "Rate limit exceeded", ErrorCode: 0 }, statusCode: 429 };
+
+            let postmarkError = errorHandler.generateError(error);
+            expect(postmarkError).to.be.an.instanceof(Errors.RateLimitExceededError);
+            expect(postmarkError.name).to.equal('RateLimitExceededError');
+        });
+
+        it('non JSON body', () => {
+            const errorHandler = new ErrorHandler();
+            const error: any = { body: "<html>Bad gateway</html>", statusCode: 502 };
+
+            let postmarkError = errorHandler.generateError(error);
+            expect(postmarkError).to.be.an.instanceof(Errors.UnknownError);
+            expect(postmarkError.message).to.equal('Request failed with HTTP status 502.');
+            expect(postmarkError.responseBody).to.equal(error.body);
+        });
+    });
+
+    describe('error codes', () => {
+        function apiInputError(errorCode: number): any {
+            return { body: { Message: "Test message", ErrorCode: errorCode }, statusCode: 422 };
+        }
+
+        it('invalid email request', () => {
+            const postmarkError = new ErrorHandler().generateError(apiInputError(Models.ErrorCode.InvalidEmailRequest));
+            expect(postmarkError).to.be.an.instanceof(Errors.InvalidEmailRequestError);
+            expect(postmarkError).to.be.an.instanceof(Errors.ApiInputError);
+        });
+
+        it('inactive recipient', () => {
+            const postmarkError = new ErrorHandler().generateError(apiInputError(406));
+            expect(postmarkError).to.be.an.instanceof(Errors.InactiveRecipientError);
+            expect(postmarkError.name).to.equal('InactiveRecipientError');
+            expect(postmarkError.code).to.equal(Models.ErrorCode.InactiveRecipient);
+        });
+
+        it('template not found', () => {
+            const postmarkError = new ErrorHandler().generateError(apiInputError(1101));
+            expect(postmarkError).to.be.an.instanceof(Errors.TemplateNotFoundError);
+        });
+
+        it('other codes', () => {
+            const postmarkError = new ErrorHandler().generateError(apiInputError(Models.ErrorCode.TooManyBatchMessages));
+            expect(postmarkError.name).to.equal('ApiInputError');
+        });
+    });
+
+    describe('network errors', () => {
+        function networkError(code: string): Error {
+            const error: any = new Error(`Test ${code}`);
+            error.code = code;
+            return error;
+        }
+
+        it('timeout', () => {
+            const postmarkError = new ErrorHandler().generateError(networkError('ETIMEDOUT'));
+            expect(postmarkError).to.be.an.instanceof(Errors.TimeoutError);
+            expect(postmarkError).to.be.an.instanceof(Errors.NetworkError);
+        });
+
+        it('connection reset', () => {
+            const postmarkError = <Errors.NetworkError>new ErrorHandler().generateError(networkError('ECONNRESET'));
+            expect(postmarkError.name).to.equal('NetworkError');
+            expect(postmarkError.systemCode).to.equal('ECONNRESET');
+        });
+    });
+
+    it('request details', () => {
+        const error: any = { body: { Message: "Test message", ErrorCode: 300 }, statusCode: 422 };
+
+        let postmarkError = new ErrorHandler().generateError(error, { method: 'POST', path: '/email', attempts: 1 });
+        expect(postmarkError.method).to.equal('POST');
+        expect(postmarkError.path).to.equal('/email');
+        expect(postmarkError.responseBody).to.eql(error.body);
     });
 });
\ No newline at end of file
@@ -0,0 +1,100 @@
+import * as postmark from "../../src";
+import { FixtureMode, TransportRequest } from "../../src/client/models";
+
+import { expect } from 'chai';
+import 'mocha';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FixtureTransport', () => {
+    const serverToken = 'secretServerToken';
+    let file: string;
+    let requests: TransportRequest[];
+
+    const recordingTransport = {
+        request: (request: TransportRequest) => {
+            requests.push(request);
+            return Promise.resolve({
+                statusCode: 200,
+                headers: { 'content-type': 'application/json' },
+                body: { ID: requests.length, Name: 'Server', ApiTokens: [serverToken, 'otherToken'], Note: `Token ${serverToken}` }
+            });
+        }
+    };
+
+    const createClient = (transport: postmark.Models.Transport) => new postmark.ServerClient(serverToken, {
+        useHttps: true,
+        requestHost: 'api.postmarkapp.com',
+        timeout: 10,
+        transport: transport
+    });
+
+    beforeEach(() => {
+        file = path.join(os.tmpdir(), `postmark-fixtures-${process.pid}-${Date.now()}`, 'server.json');
+        requests = [];
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(file)) {
+            fs.unlinkSync(file);
+            fs.rmdirSync(path.dirname(file));
+        }
+    });
+
+    it('records interactions with scrubbed tokens', async () => {
+        const client = createClient(new postmark.FixtureTransport({ file: file, transport: recordingTransport }));
+
+        await client.getServer();
+        await client.getOutboundMessages({ count: 10, offset: 0, tag: undefined });
+
+        const fixture = fs.readFileSync(file, 'utf8');
+        const interactions = JSON.parse(fixture).interactions;
+        expect(requests.length).to.equal(2);
+        expect(fixture).not.to.contain(serverToken);
+        expect(fixture).not.to.contain('otherToken');
+        expect(interactions[0].request).to.eql({ method: 'GET', path: '/server', query: {}, body: null });
+        expect(interactions[0].response.body.Note).to.equal('Token [SCRUBBED]');
+        expect(interactions[1].request.query).to.eql({ count: '10', offset: '0' });
+    });
+
+    it('replays recorded interactions in order', async () => {
+        const recordingClient = createClient(new postmark.FixtureTransport({ file: file, transport: recordingTransport }));
+        await recordingClient.getServer();
+        await recordingClient.getServer();
+
+        const client = createClient(new postmark.FixtureTransport({ file: file, mode: FixtureMode.Replay, transport: recordingTransport }));
+        const servers = [await client.getServer(), await client.getServer(), await client.getServer()];
+
+        expect(servers.map(server => server.ID)).to.eql([1, 2, 2]);
+        expect(requests.length).to.equal(2);
+    });
+
+    it('matches request body', async () => {
+        const recordingClient = createClient(new postmark.FixtureTransport({ file: file, transport: recordingTransport }));
+        await recordingClient.editServer({ Name: 'First' });
+        await recordingClient.editServer({ Name: 'Second' });
+
+        const client = createClient(new postmark.FixtureTransport({ file: file }));
+        const server = await client.editServer({ Name: 'Second' });
+
+        expect(server.ID).to.equal(2);
+        try {
+            await client.editServer({ Name: 'Third' });
+            throw new Error('Call should fail.');
+        } catch (error) {
+            expect(error.message).to.contain('No interaction recorded');
+            expect(error.message).to.contain('PUT /server');
+        }
+    });
+
+    it('ignores request body when configured', async () => {
+        const recordingClient = createClient(new postmark.FixtureTransport({ file: file, transport: recordingTransport }));
+        await recordingClient.editServer({ Name: 'First' });
+
+        const client = createClient(new postmark.FixtureTransport({ file: file, matchBody: false }));
+        const server = await client.editServer({ Name: 'Other' });
+
+        expect(server.ID).to.equal(1);
+    });
+});
@@ -0,0 +1,152 @@
+import * as postmark from "../../src";
+import { AttributeValue } from "../../src/client/models";
+import { Hash } from "../../src/client/models/client/SupportingTypes";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('InstrumentationHandler', () => {
+    let spans: { name: string, attributes: Hash<AttributeValue>, errors: Error[], ended: boolean }[];
+    let counters: { name: string, labels: Hash<string> }[];
+    let histograms: { name: string, value: number, labels: Hash<string> }[];
+    let responses: postmark.Models.TransportResponse[];
+    let client: postmark.ServerClient;
+
+    beforeEach(() => {
+        spans = [];
+        counters = [];
+        histograms = [];
+        responses = [];
+
+        client = new postmark.ServerClient('testToken', {
+            useHttps: true,
+            requestHost: 'api.postmarkapp.com',
+            timeout: 10,
+            retryPolicy: { initialDelay: 1 },
+            transport: {
+                request: () => Promise.resolve(responses.shift() || { statusCode: 200, headers: {}, body: {} })
+            },
+            instrumentation: {
+                tracer: {
+                    startSpan: (name, attributes) => {
+                        const span = { name: name, attributes: { ...attributes }, errors: <Error[]>[], ended: false };
+                        spans.push(span);
+                        return {
+                            setAttributes: attributes => span.attributes = { ...span.attributes, ...attributes },
+                            recordError: error => span.errors.push(error),
+                            end: () => span.ended = true
+                        };
+                    }
+                },
+                metrics: {
+                    incrementCounter: (name, labels) => counters.push({ name: name, labels: labels }),
+                    recordHistogram: (name, value, labels) => histograms.push({ name: name, value: value, labels: labels })
+                }
+            }
+        });
+    });
+
+    it('opens span for successful call', async () => {
+        await client.getBounce(123);
+
+        expect(spans.length).to.equal(1);
+        expect(spans[0].name).to.equal('Postmark GET /bounces/:id');
+        expect(spans[0].ended).to.equal(true);
+        expect(spans[0].attributes).to.eql({
+            'http.method': 'GET',
+            'http.route': '/bounces/:id',
+            'postmark.path': '/bounces/123',
+            'http.status_code': 200,
+            'postmark.retry_count': 0
+        });
+    });
+
+    it('replaces template aliases in routes', async () => {
+        await client.getTemplate('welcome-email');
+        await client.getTemplate(42);
+        await client.validateTemplate({ Subject: 'Subject' });
+
+        expect(spans.map(span => span.attributes['http.route'])).to.eql(['/templates/:id', '/templates/:id', '/templates/validate']);
+    });
+
+    it('records failed call with retries', async () => {
+        responses.push({ statusCode: 503, headers: {}, body: { ErrorCode: 0, Message: 'Unavailable' } });
+        responses.push({ statusCode: 422, headers: {}, body: { ErrorCode: 701, Message: 'Not found' } });
+
+        await client.getOutboundMessageDetails('message').then(() => { throw new Error('Call should fail.'); }, () => { });
+
+        expect(spans[0].attributes['http.status_code']).to.equal(422);
+        expect(spans[0].attributes['postmark.error_code']).to.equal(701);
+        expect(spans[0].attributes['postmark.retry_count']).to.equal(1);
+        expect(spans[0].errors.length).to.equal(1);
+        expect(spans[0].ended).to.equal(true);
+    });
+
+    it('records metrics', async () => {
+        await client.getBounceTags();
+        responses.push({ statusCode: 422, headers: {}, body: { ErrorCode: 300, Message: 'Invalid' } });
+        await client.sendEmail(new postmark.Message('from@example.com', 'Subject')).catch(() => { });
+
+        expect(counters).to.eql([
+            { name: 'postmark.client.requests', labels: { method: 'GET', route: '/bounces/tags', status: '200' } },
+            { name: 'postmark.client.requests', labels: { method: 'POST', route: '/email', status: '422' } },
+            { name: 'postmark.client.errors', labels: { method: 'POST', route: '/email', status: '422', error: 'InvalidEmailRequestError' } }
+        ]);
+        expect(histograms.map(histogram => histogram.name)).to.eql(['postmark.client.duration', 'postmark.client.duration']);
+        expect(histograms[0].value).to.be.at.least(0);
+    });
+
+    describe('failing instrumentation', () => {
+        const failing = () => { throw new Error('Instrumentation failure.'); };
+        let sent: number;
+
+        function clientWithInstrumentation(instrumentation: postmark.Models.InstrumentationOptions,
+            response: postmark.Models.TransportResponse): postmark.ServerClient {
+            return new postmark.ServerClient('testToken', {
+                useHttps: true,
+                requestHost: 'api.postmarkapp.com',
+                timeout: 10,
+                transport: { request: () => { sent++; return Promise.resolve(response); } },
+                instrumentation: instrumentation
+            });
+        }
+
+        beforeEach(() => sent = 0);
+
+        it('does not fail call when tracer fails to start span', async () => {
+            const failingClient = clientWithInstrumentation({ tracer: { startSpan: failing } },
+                { statusCode: 200, headers: {}, body: ['tag'] });
+
+            expect(await failingClient.getBounceTags()).to.eql(['tag']);
+            expect(sent).to.equal(1);
+        });
+
+        it('does not fail accepted call when span and metrics fail', async () => {
+            let ended = 0;
+            const failingClient = clientWithInstrumentation({
+                tracer: { startSpan: () => ({ setAttributes: failing, recordError: failing, end: () => { ended++; failing(); } }) },
+                metrics: { incrementCounter: failing, recordHistogram: failing }
+            }, { statusCode: 200, headers: {}, body: { ErrorCode: 0, Message: 'OK' } });
+
+            const response = await failingClient.sendEmail(new postmark.Message('from@example.com', 'Subject', 'Body', undefined, 'to@example.com'));
+
+            expect(response.Message).to.equal('OK');
+            expect(ended).to.equal(1);
+        });
+
+        it('keeps API error when span and metrics fail', async () => {
+            let ended = 0;
+            const failingClient = clientWithInstrumentation({
+                tracer: { startSpan: () => ({ setAttributes: failing, recordError: failing, end: () => { ended++; failing(); } }) },
+                metrics: { incrementCounter: failing, recordHistogram: failing }
+            }, { statusCode: 422, headers: {}, body: { ErrorCode: 300, Message: 'Invalid' } });
+
+            await failingClient.sendEmail(new postmark.Message('from@example.com', 'Subject')).then(() => {
+                throw new Error('Call should fail.');
+            }, error => {
+                expect(error).to.be.instanceOf(postmark.Errors.InvalidEmailRequestError);
+            });
+            expect(ended).to.equal(1);
+        });
+    });
+});
@@ -0,0 +1,64 @@
+import * as postmark from "../../src";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('MessageBuilder', () => {
+    it('builds message', () => {
+        const message = postmark.MessageBuilder.from('from@example.com')
+            .to(['john@example.com', 'jane@example.com'])
+            .to('joe@example.com')
+            .cc('cc@example.com')
+            .subject('Subject')
+            .htmlBody('Html')
+            .textBody('Text')
+            .tag('welcome')
+            .trackOpens()
+            .trackLinks(postmark.Models.LinkTrackingOptions.HtmlOnly)
+            .header('X-Custom', 'value')
+            .attach('readme.txt', 'dGV4dA==', 'text/plain')
+            .metadata('customer', '123')
+            .metadata({ plan: 'pro' })
+            .build();
+
+        expect(message).to.eql(new postmark.Message('from@example.com', 'Subject', 'Html', 'Text',
+            'john@example.com, jane@example.com, joe@example.com', 'cc@example.com', undefined, undefined, 'welcome', true,
+            postmark.Models.LinkTrackingOptions.HtmlOnly, [new postmark.Header('X-Custom', 'value')],
+            [new postmark.Attachment('readme.txt', 'dGV4dA==', 'text/plain')], { customer: '123', plan: 'pro' }));
+        expect(message).to.be.instanceOf(postmark.Message);
+    });
+
+    it('builds the same structure as constructor for minimal message', () => {
+        const message = postmark.MessageBuilder.from('from@example.com').to('to@example.com').subject('Subject').textBody('Text').build();
+
+        expect(message).to.eql(new postmark.Message('from@example.com', 'Subject', undefined, 'Text', 'to@example.com'));
+    });
+
+    it('builds templated message', () => {
+        const message = postmark.TemplatedMessageBuilder.from('from@example.com')
+            .template('welcome', { name: 'John' })
+            .to('to@example.com')
+            .bcc(['bcc@example.com'])
+            .inlineCss()
+            .build();
+
+        const expected = new postmark.TemplatedMessage('from@example.com', 'welcome', { name: 'John' }, 'to@example.com', undefined, 'bcc@example.com');
+        expected.InlineCss = true;
+        expect(message).to.eql(expected);
+    });
+
+    it('validates message when built', () => {
+        try {
+            postmark.MessageBuilder.from('from@example.com').to('invalid').subject('Subject').build();
+            throw new Error('Build should fail.');
+        } catch (error) {
+            expect(error).to.be.instanceOf(postmark.Errors.MessageValidationError);
+            expect(error.errors.map((fieldError: postmark.Models.FieldError) => fieldError.field)).to.eql(['To', 'HtmlBody']);
+        }
+    });
+
+    it('validates templated message when built', () => {
+        expect(() => postmark.TemplatedMessageBuilder.from('from@example.com').to('to@example.com').build())
+            .to.throw(postmark.Errors.MessageValidationError);
+    });
+});
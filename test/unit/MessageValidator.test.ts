@@ -0,0 +1,83 @@
+import * as postmark from "../../src";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('MessageValidator', () => {
+    const validator = new postmark.MessageValidator();
+    const fields = (errors: postmark.Models.FieldError[]) => errors.map(error => error.field);
+
+    it('accepts valid message', () => {
+        const message = new postmark.Message('Sender <from@example.com>', 'Subject', 'Html', undefined, 'to@example.com, John <john@example.com>');
+
+        expect(validator.validateMessage(message)).to.eql([]);
+    });
+
+    it('requires From, Subject, body and recipients', () => {
+        const errors = validator.validateMessage(new postmark.Message('', ''));
+
+        expect(fields(errors)).to.eql(['From', 'To', 'Subject', 'HtmlBody']);
+    });
+
+    it('checks recipient syntax and limit', () => {
+        const recipients = Array.apply(null, Array(30)).map((value: any, index: number) => `to${index}@example.com`).join(',');
+        const message = new postmark.Message('from@example.com', 'Subject', 'Html', undefined, recipients, recipients, 'invalid');
+
+        expect(validator.validateMessage(message)).to.eql([
+            { field: 'Bcc', message: "Invalid address 'invalid'." },
+            { field: 'To', message: 'Maximum of 50 To, Cc and Bcc recipients is allowed, 61 were provided.' }
+        ]);
+    });
+
+    it('checks headers, attachments and metadata', () => {
+        const message = new postmark.Message('from@example.com', 'Subject', 'Html', undefined, 'to@example.com');
+        message.Headers = [new postmark.Header('X-Custom', 'value'), new postmark.Header('Subject', 'Other')];
+        message.Attachments = [new postmark.Attachment('readme.txt', 'dGV4dA==', 'text/plain'), new postmark.Attachment('setup.EXE', '', 'application/octet-stream')];
+        message.Metadata = { 'customer': 'x'.repeat(81), 'a-very-long-metadata-key': 'value' };
+
+        expect(fields(validator.validateMessage(message))).to.eql([
+            'Headers[1].Name', 'Attachments[1].Name', 'Attachments[1].Content', 'Metadata.customer', 'Metadata.a-very-long-metadata-key'
+        ]);
+    });
+
+    it('checks message size', () => {
+        const message = new postmark.Message('from@example.com', 'Subject', 'x'.repeat(postmark.MessageValidator.MaxMessageBytes), undefined, 'to@example.com');
+
+        expect(fields(validator.validateMessage(message))).to.eql(['Attachments']);
+    });
+
+    it('requires either template ID or alias', () => {
+        const message = new postmark.TemplatedMessage('from@example.com', 'alias', {}, 'to@example.com');
+        expect(validator.validateTemplatedMessage(message)).to.eql([]);
+
+        message.TemplateId = 123;
+        expect(fields(validator.validateTemplatedMessage(message))).to.eql(['TemplateAlias']);
+
+        message.TemplateId = message.TemplateAlias = undefined;
+        expect(fields(validator.validateTemplatedMessage(message))).to.eql(['TemplateId']);
+    });
+
+    it('rejects invalid messages before sending', async () => {
+        let requests = 0;
+        const client = new postmark.ServerClient('testToken', {
+            useHttps: true,
+            requestHost: 'api.postmarkapp.com',
+            timeout: 10,
+            validateMessages: true,
+            transport: { request: () => { requests++; return Promise.resolve({ statusCode: 200, headers: {}, body: [] }); } }
+        });
+
+        try {
+            await client.sendEmailBatch([
+                new postmark.Message('from@example.com', 'Subject', 'Html', undefined, 'to@example.com'),
+                new postmark.Message('from@example.com', 'Subject', 'Html', undefined, 'invalid')
+            ]);
+            throw new Error('Call should fail.');
+        } catch (error) {
+            expect(error).to.be.instanceOf(postmark.Errors.MessageValidationError);
+            expect(error.code).to.equal(postmark.Models.ErrorCode.InvalidEmailRequest);
+            expect(error.errors).to.eql([{ field: '[1].To', message: "Invalid address 'invalid'." }]);
+            expect(requests).to.equal(0);
+        }
+    });
+});
@@ -0,0 +1,117 @@
+import * as postmark from "../../src";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Middleware', () => {
+    let requests: postmark.Models.TransportRequest[];
+    let responses: postmark.Models.TransportResponse[];
+    let client: postmark.ServerClient;
+
+    beforeEach(() => {
+        requests = [];
+        responses = [];
+        client = new postmark.ServerClient('testToken', {
+            useHttps: true,
+            requestHost: 'api.postmarkapp.com',
+            timeout: 10,
+            retryPolicy: { maxAttempts: 1 },
+            transport: {
+                request: (request: postmark.Models.TransportRequest) => {
+                    requests.push(request);
+                    return Promise.resolve(responses.shift() || { statusCode: 200, headers: {}, body: ['tag'] });
+                }
+            }
+        });
+    });
+
+    it('executes middleware in order', async () => {
+        const calls: string[] = [];
+
+        client
+            .use((request, next) => {
+                calls.push('first');
+                return next(request).then(response => { calls.push('first done'); return response; });
+            })
+            .use((request, next) => {
+                calls.push('second');
+                return next(request).then(response => { calls.push('second done'); return response; });
+            });
+
+        await client.getBounceTags();
+        expect(calls).to.eql(['first', 'second', 'second done', 'first done']);
+    });
+
+    it('modifies request', async () => {
+        client.use((request, next) => {
+            request.headers['X-Correlation-Id'] = 'correlation';
+            return next({ ...request, queryParameters: { ...request.queryParameters, tag: 'test' } });
+        });
+
+        await client.getBounceTags();
+        expect(requests[0].headers['X-Correlation-Id']).to.equal('correlation');
+        expect(requests[0].queryParameters).to.eql({ tag: 'test' });
+    });
+
+    it('receives request details', async () => {
+        let received: any;
+        client.use((request, next) => {
+            received = request;
+            return next(request);
+        });
+
+        await client.getBounces(new postmark.Models.BounceFilteringParameters(10, 0));
+        expect(received.method).to.equal('GET');
+        expect(received.path).to.equal('/bounces');
+        expect(received.queryParameters.count).to.equal(10);
+        expect(received.body).to.equal(null);
+    });
+
+    it('short-circuits request', async () => {
+        client.use(() => Promise.resolve({ statusCode: 200, headers: {}, body: ['cached'] }));
+
+        expect(await client.getBounceTags()).to.eql(['cached']);
+        expect(requests.length).to.equal(0);
+    });
+
+    it('retries request', async () => {
+        responses.push({ statusCode: 500, headers: {}, body: { ErrorCode: 0, Message: 'Error' } });
+        client.use((request, next) => next(request).then(response => {
+            return (response.statusCode === 500) ? next(request) : response;
+        }));
+
+        expect(await client.getBounceTags()).to.eql(['tag']);
+        expect(requests.length).to.equal(2);
+    });
+
+    it('transforms response', async () => {
+        client.use((request, next) => next(request).then(response => {
+            return { ...response, body: response.body.map((tag: string) => tag.toUpperCase()) };
+        }));
+
+        expect(await client.getBounceTags()).to.eql(['TAG']);
+    });
+
+    it('turns errors thrown by middleware into Postmark errors', () => {
+        client.use(() => { throw new Error('Middleware failure'); });
+
+        return client.getBounceTags().then(() => { throw new Error('Request should fail.'); }, error => {
+            expect(error).to.be.an.instanceof(postmark.Errors.PostmarkError);
+            expect(error.message).to.equal('Middleware failure');
+        });
+    });
+
+    it('middleware from client options', async () => {
+        const calls: string[] = [];
+        client = new postmark.ServerClient('testToken', {
+            useHttps: true,
+            requestHost: 'api.postmarkapp.com',
+            timeout: 10,
+            middleware: [(request, next) => { calls.push(request.path); return next(request); }],
+            transport: { request: () => Promise.resolve({ statusCode: 200, headers: {}, body: [] }) }
+        });
+
+        await client.getBounceTags();
+        expect(calls).to.eql(['/bounces/tags']);
+    });
+});
@@ -0,0 +1,63 @@
+import * as postmark from "../../src";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('MimeGenerator', () => {
+    const generator = new postmark.MimeGenerator({ date: new Date(Date.UTC(2026, 9, 19, 10, 30)), messageId: '<id@example.com>' });
+    const boundaries = (document: string) => (document.match(/boundary="([^"]+)"/g) || []).map(boundary => boundary.slice(10, -1));
+
+    it('generates single part message with encoded headers', () => {
+        const message = new postmark.Message({ Email: 'from@bücher.de', Name: 'Jürgen' }, 'Grüße aus Köln', undefined, 'Line 1\nPrice = 10 €',
+            '"Smith, John" <john@example.com>', undefined, 'bcc@example.com');
+        message.Headers = [new postmark.Header('X-Custom', 'value')];
+
+        expect(generator.generate(message)).to.equal([
+            'From: =?UTF-8?B?SsO8cmdlbg==?= <from@xn--bcher-kva.de>',
+            'To: "Smith, John" <john@example.com>',
+            'Subject: =?UTF-8?B?R3LDvMOfZSBhdXMgS8O2bG4=?=',
+            'Date: Mon, 19 Oct 2026 10:30:00 +0000',
+            'Message-ID: <id@example.com>',
+            'MIME-Version: 1.0',
+            'X-Custom: value',
+            'Content-Type: text/plain; charset=utf-8',
+            'Content-Transfer-Encoding: quoted-printable',
+            '',
+            'Line 1',
+            'Price =3D 10 =E2=82=AC'
+        ].join('\r\n'));
+    });
+
+    it('includes Bcc when archiving', () => {
+        const message = new postmark.Message('from@example.com', 'Subject', 'Html', undefined, undefined, undefined, 'bcc@example.com');
+
+        expect(new postmark.MimeGenerator({ includeBcc: true }).generate(message)).to.contain('\r\nBcc: bcc@example.com\r\n');
+    });
+
+    it('nests alternative, related and mixed parts', () => {
+        const message = new postmark.Message('from@example.com', 'Subject', '<img src="cid:logo.png">', 'Text', 'to@example.com');
+        message.Attachments = [
+            new postmark.Attachment('logo.png', 'iVBORw0KGgo=', 'image/png', 'cid:logo.png'),
+            new postmark.Attachment('Bericht für Köln.pdf', 'JVBERi0=', 'application/pdf')
+        ];
+
+        const document = generator.generate(message);
+        const [mixed, related, alternative] = boundaries(document);
+
+        expect(document).to.contain(`Content-Type: multipart/mixed; boundary="${mixed}"\r\n\r\n--${mixed}\r\nContent-Type: multipart/related;`);
+        expect(document).to.contain(`--${related}\r\nContent-Type: multipart/alternative; boundary="${alternative}"`);
+        expect(document).to.contain(`--${alternative}\r\nContent-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: quoted-printable\r\n\r\nText\r\n`);
+        expect(document).to.contain(`--${alternative}\r\nContent-Type: text/html; charset=utf-8`);
+        expect(document).to.contain('Content-Disposition: inline; filename="logo.png"\r\nContent-ID: <logo.png>\r\n\r\niVBORw0KGgo=\r\n');
+        expect(document).to.contain("Content-Disposition: attachment; filename*=UTF-8''Bericht%20f%C3%BCr%20K%C3%B6ln.pdf\r\n\r\nJVBERi0=\r\n");
+        expect(document).to.match(new RegExp(`--${alternative}--\\r\\n--${related}\\r\\n[^]*--${related}--\\r\\n--${mixed}\\r\\n[^]*--${mixed}--$`));
+    });
+
+    it('wraps long lines', () => {
+        const message = new postmark.Message('from@example.com', `Subject ${'word '.repeat(20)}`, undefined, 'x'.repeat(100), 'to@example.com');
+        const lines = generator.generate(message).split('\r\n');
+
+        expect(lines.every(line => line.length <= 78)).to.equal(true);
+        expect(lines.slice(-2)).to.eql([`${'x'.repeat(75)}=`, 'x'.repeat(25)]);
+    });
+});
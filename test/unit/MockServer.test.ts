@@ -0,0 +1,111 @@
+import * as postmark from "../../src";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('MockServer', () => {
+    const mockServer = new postmark.MockServer({ serverToken: 'serverToken', accountToken: 'accountToken' });
+    let client: postmark.ServerClient;
+    let accountClient: postmark.AccountClient;
+
+    before(() => mockServer.start());
+    after(() => mockServer.stop());
+
+    beforeEach(() => {
+        mockServer.reset();
+        client = new postmark.ServerClient('serverToken', mockServer.getClientOptions());
+        accountClient = new postmark.AccountClient('accountToken', mockServer.getClientOptions());
+    });
+
+    const expectError = async (call: Promise<any>, errorCode: number): Promise<postmark.Errors.PostmarkError> => {
+        try {
+            await call;
+        } catch (error) {
+            expect(error.code).to.equal(errorCode);
+            return error;
+        }
+        throw new Error('Call should fail.');
+    };
+
+    it('sends email', async () => {
+        const response = await client.sendEmail(new postmark.Message('from@example.com', 'Subject', 'Html', undefined, 'John <to@example.com>'));
+        const messages = await client.getOutboundMessages();
+        const details = await client.getOutboundMessageDetails(response.MessageID);
+
+        expect(mockServer.outbox.length).to.equal(1);
+        expect(messages.TotalCount).to.equal(1);
+        expect(details.To).to.eql([{ Name: 'John', Email: 'to@example.com' }]);
+        expect(details.HtmlBody).to.equal('Html');
+        expect((await client.getOutboundMessageDump(response.MessageID)).Body).to.contain('To: John <to@example.com>\r\n');
+    });
+
+    it('rejects invalid token', async () => {
+        const invalidClient = new postmark.ServerClient('invalidToken', mockServer.getClientOptions());
+
+        const error = await expectError(invalidClient.getBounceTags(), postmark.Models.ErrorCode.BadOrMissingApiToken);
+        expect(error).to.be.instanceOf(postmark.Errors.InvalidAPIKeyError);
+    });
+
+    it('sends email with template', async () => {
+        const template = await client.createTemplate({ Name: 'Welcome', Alias: 'welcome', Subject: 'Hello', HtmlBody: 'Hi' });
+        await client.sendEmailWithTemplate(new postmark.TemplatedMessage('from@example.com', 'welcome', {}, 'to@example.com'));
+        const responses = await client.sendEmailBatchWithTemplates([
+            new postmark.TemplatedMessage('from@example.com', template.TemplateId, {}, 'to@example.com'),
+            new postmark.TemplatedMessage('from@example.com', 'missing', {}, 'to@example.com')
+        ]);
+
+        expect(responses.map(response => response.ErrorCode)).to.eql([0, postmark.Models.ErrorCode.TemplateNotFound]);
+        expect(mockServer.outbox.length).to.equal(2);
+        await expectError(client.sendEmailWithTemplate(new postmark.TemplatedMessage('from@example.com', 'missing', {}, 'to@example.com')),
+            postmark.Models.ErrorCode.TemplateNotFound);
+    });
+
+    it('manages templates', async () => {
+        const template = await client.createTemplate({ Name: 'Welcome', Subject: 'Hello' });
+        await client.editTemplate(template.TemplateId, { Name: 'Updated' });
+
+        expect((await client.getTemplate(template.TemplateId)).Name).to.equal('Updated');
+        expect((await client.getTemplates()).TotalCount).to.equal(1);
+
+        await client.deleteTemplate(template.TemplateId);
+        expect((await client.getTemplates()).TotalCount).to.equal(0);
+    });
+
+    it('returns bounces from state', async () => {
+        mockServer.state.bounces.push(<postmark.Models.Bounce>{ ID: 10, Type: 'HardBounce', Email: 'bounced@example.com', Tag: 'welcome', Inactive: true });
+
+        expect((await client.getBounces()).TotalCount).to.equal(1);
+        expect(await client.getBounceTags()).to.eql(['welcome']);
+        expect((await client.activateBounce(10)).Bounce.Inactive).to.equal(false);
+        await expectError(client.getBounce(11), postmark.Models.ErrorCode.BounceNotFound);
+    });
+
+    it('rejects invalid pagination with query error of the endpoint', async () => {
+        await expectError(client.getBounces({ count: 501, offset: 0 }), postmark.Models.ErrorCode.BounceQueryException);
+        await expectError(client.getTemplates({ count: 10, offset: -1 }), postmark.Models.ErrorCode.TemplateQueryException);
+        await expectError(accountClient.getServers({ count: 1000, offset: 0 }), postmark.Models.ErrorCode.ServerQueryException);
+    });
+
+    it('updates sender reply to address', async () => {
+        const sender = await accountClient.createSenderSignature({ Name: 'John', FromEmail: 'john@example.com' });
+        const updated = await accountClient.editSenderSignature(sender.ID, { ReplyToEmail: 'reply@example.com' });
+
+        expect(updated.Name).to.equal('John');
+        expect(updated.ReplyToEmailAddress).to.equal('reply@example.com');
+    });
+
+    it('manages servers, domains and senders', async () => {
+        const server = await accountClient.createServer({ Name: 'Staging' });
+        const domain = await accountClient.createDomain({ Name: 'example.com' });
+        const sender = await accountClient.createSenderSignature({ Name: 'John', FromEmail: 'john@example.com' });
+
+        expect((await accountClient.getServer(server.ID)).Name).to.equal('Staging');
+        expect((await accountClient.getDomains()).Domains.map(item => item.Name)).to.eql(['example.com']);
+        expect((await accountClient.verifyDomainSPF(domain.ID)).SpfVerified).to.equal(true);
+        expect((await accountClient.getSenderSignature(sender.ID)).EmailAddress).to.equal('john@example.com');
+
+        await accountClient.deleteServer(server.ID);
+        await expectError(accountClient.getServer(server.ID), postmark.Models.ErrorCode.ServerNotFound);
+        await expectError(accountClient.createDomain({ Name: 'example.com' }), postmark.Models.ErrorCode.DomainAlreadyExists);
+    });
+});
@@ -0,0 +1,124 @@
+import * as postmark from "../../src";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('NodemailerTransport', () => {
+    let sandbox: postmark.SandboxTransport;
+    let transport: postmark.NodemailerTransport;
+
+    beforeEach(() => {
+        sandbox = new postmark.SandboxTransport();
+        transport = new postmark.NodemailerTransport(new postmark.ServerClient('testToken', {
+            useHttps: true,
+            requestHost: 'api.postmarkapp.com',
+            timeout: 10,
+            transport: sandbox
+        }));
+    });
+
+    it('converts mail options to message', async () => {
+        await transport.sendMail({
+            from: { name: 'Sender', address: 'sender@example.com' },
+            to: ['first@example.com', { name: 'Smith, John', address: 'john@example.com' }],
+            cc: 'cc@example.com',
+            bcc: { address: 'bcc@example.com' },
+            replyTo: 'reply@example.com',
+            subject: 'Subject',
+            text: Buffer.from('Text'),
+            html: '<img src="cid:logo">',
+            headers: { 'X-Priority': '1', 'X-List': ['a', 'b'], 'X-Prepared': { prepared: true, value: 'c' } },
+            tag: 'welcome',
+            metadata: { customer: '42' },
+            trackOpens: true,
+            trackLinks: postmark.Models.LinkTrackingOptions.HtmlOnly
+        });
+
+        const message = <postmark.Message>sandbox.outbox[0].message;
+        expect(sandbox.outbox[0].path).to.equal('/email');
+        expect(message.From).to.equal('Sender <sender@example.com>');
+        expect(message.To).to.equal('first@example.com, "Smith, John" <john@example.com>');
+        expect(message.Cc).to.equal('cc@example.com');
+        expect(message.Bcc).to.equal('bcc@example.com');
+        expect(message.ReplyTo).to.equal('reply@example.com');
+        expect(message.TextBody).to.equal('Text');
+        expect(message.HtmlBody).to.equal('<img src="cid:logo">');
+        expect(message.Headers).to.eql([
+            new postmark.Header('X-Priority', '1'), new postmark.Header('X-List', 'a'),
+            new postmark.Header('X-List', 'b'), new postmark.Header('X-Prepared', 'c')
+        ]);
+        expect(message.Tag).to.equal('welcome');
+        expect(message.Metadata).to.eql({ customer: '42' });
+        expect(message.TrackOpens).to.equal(true);
+        expect(message.TrackLinks).to.equal('HtmlOnly');
+    });
+
+    it('converts attachments', async () => {
+        await transport.sendMail({
+            from: 'sender@example.com', to: 'recipient@example.com', subject: 'Subject', text: 'Text',
+            attachments: [
+                { filename: 'logo.png', content: Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]), cid: 'logo' },
+                { filename: 'notes.txt', content: 'aGVsbG8=', encoding: 'base64' },
+                { content: 'plain', contentType: 'text/csv' }
+            ]
+        });
+
+        const attachments = <postmark.Attachment[]>(<postmark.Message>sandbox.outbox[0].message).Attachments;
+        expect(attachments[0]).to.eql(new postmark.Attachment('logo.png', 'iVBORw0KGgo=', 'image/png', 'cid:logo'));
+        expect(attachments[1]).to.eql(new postmark.Attachment('notes.txt', Buffer.from('hello').toString('base64'), 'text/plain', null));
+        expect(attachments[2]).to.eql(new postmark.Attachment('attachment-3', Buffer.from('plain').toString('base64'), 'text/csv', null));
+    });
+
+    it('sends templated message when template is set', async () => {
+        await transport.sendMail({
+            from: 'sender@example.com', to: 'recipient@example.com', templateAlias: 'welcome', templateModel: { name: 'John' },
+            metadata: { customer: '42' }
+        });
+
+        const message = <postmark.TemplatedMessage>sandbox.outbox[0].message;
+        expect(sandbox.outbox[0].path).to.equal('/email/withTemplate');
+        expect(message.TemplateAlias).to.equal('welcome');
+        expect(message.TemplateModel).to.eql({ name: 'John' });
+        expect(message.Metadata).to.eql({ customer: '42' });
+    });
+
+    it('rejects mail options without from address', async () => {
+        try {
+            await transport.sendMail({ to: 'recipient@example.com', subject: 'Subject', text: 'Text' });
+            throw new Error('Call should fail.');
+        } catch (error) {
+            expect(error).to.be.instanceOf(postmark.Errors.PostmarkError);
+            expect(error.message).to.equal("Mail options must have 'from' address.");
+            expect(sandbox.outbox.length).to.equal(0);
+        }
+    });
+
+    it('returns info with message ID', async () => {
+        const info = await transport.sendMail({
+            from: 'Sender <sender@example.com>', to: 'to@example.com', cc: ['cc@example.com'], subject: 'Subject', text: 'Text'
+        });
+
+        expect(info.messageId).to.equal(sandbox.outbox[0].response.MessageID);
+        expect(info.envelope).to.eql({ from: 'sender@example.com', to: ['to@example.com', 'cc@example.com'] });
+        expect(info.accepted).to.eql(['to@example.com', 'cc@example.com']);
+        expect(info.rejected).to.eql([]);
+        expect(info.response).to.equal('0 OK');
+    });
+
+    it('implements Nodemailer transport interface', (done) => {
+        expect(transport.name).to.equal('Postmark');
+        transport.send({ data: { from: 'sender@example.com', to: 'to@example.com', subject: 'Subject', text: 'Text' } }, (error, info) => {
+            expect(error).to.equal(null);
+            expect((<postmark.Models.NodemailerSentMessageInfo>info).messageId).to.equal(sandbox.outbox[0].response.MessageID);
+            done();
+        });
+    });
+
+    it('passes errors to callback', (done) => {
+        transport.send({ data: { from: 'sender@example.com', subject: 'Subject', text: 'Text' } }, (error, info) => {
+            expect(error).to.be.instanceOf(postmark.Errors.PostmarkError);
+            expect(info).to.equal(undefined);
+            done();
+        });
+    });
+});
@@ -0,0 +1,137 @@
+import { RateLimiter } from "../../src/client/RateLimiter";
+import * as postmark from "../../src";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('RateLimiter', () => {
+    function delayed<T>(value: T, delay: number): Promise<T> {
+        return new Promise<T>(resolve => setTimeout(() => resolve(value), delay));
+    }
+
+    it('limits concurrency', async () => {
+        const limiter = new RateLimiter({ maxConcurrent: 2 });
+        let active = 0;
+        let maxActive = 0;
+
+        const task = () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            return delayed(null, 10).then(() => { active--; });
+        };
+
+        await Promise.all([1, 2, 3, 4, 5].map(() => limiter.schedule(task)));
+
+        expect(maxActive).to.equal(2);
+        expect(limiter.activeCount).to.equal(0);
+        expect(limiter.pendingCount).to.equal(0);
+    });
+
+    it('limits request rate', async () => {
+        const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 2 });
+        const startedAt = Date.now();
+
+        await Promise.all([1, 2, 3, 4].map(value => limiter.schedule(() => Promise.resolve(value))));
+
+        // two requests start immediately, the remaining two wait for 50ms each
+        expect(Date.now() - startedAt).to.be.at.least(90);
+    });
+
+    it('keeps results and errors of tasks', async () => {
+        const limiter = new RateLimiter({ maxConcurrent: 1 });
+
+        expect(await limiter.schedule(() => Promise.resolve('result'))).to.equal('result');
+        await limiter.schedule(() => Promise.reject(new Error('failure'))).then(() => {
+            throw new Error('Task should fail.');
+        }, error => {
+            expect(error.message).to.equal('failure');
+        });
+        expect(limiter.activeCount).to.equal(0);
+    });
+
+    const createOptions = (rateLimit: postmark.Models.RateLimitOptions, counter: { active: number, maxActive: number }):
+        postmark.Models.ClientOptions.Configuration => ({
+        useHttps: true,
+        requestHost: 'api.postmarkapp.com',
+        timeout: 10,
+        rateLimit: rateLimit,
+        transport: {
+            request: () => {
+                counter.active++;
+                counter.maxActive = Math.max(counter.maxActive, counter.active);
+                return delayed({ statusCode: 200, headers: {}, body: [] }, 10).then(response => {
+                    counter.active--;
+                    return response;
+                });
+            }
+        }
+    });
+
+    it('is shared by clients with the same key', async () => {
+        const counter = { active: 0, maxActive: 0 };
+        const options = createOptions({ maxConcurrent: 1, key: 'sharedRateLimitKey' }, counter);
+
+        const firstClient = new postmark.ServerClient('firstToken', options);
+        const secondClient = new postmark.ServerClient('secondToken', options);
+
+        await Promise.all([firstClient.getBounceTags(), secondClient.getBounceTags(), firstClient.getBounceTags()]);
+
+        expect(counter.maxActive).to.equal(1);
+        expect(RateLimiter.shared('sharedRateLimitKey', { maxConcurrent: 1 })).to.equal(RateLimiter.shared('sharedRateLimitKey', { maxConcurrent: 1 }));
+    });
+
+    it('is shared by clients with the same token', async () => {
+        const counter = { active: 0, maxActive: 0 };
+        const options = createOptions({ maxConcurrent: 1 }, counter);
+
+        const firstClient = new postmark.ServerClient('sharedRateLimitToken', options);
+        const secondClient = new postmark.ServerClient('sharedRateLimitToken', options);
+
+        await Promise.all([firstClient.getBounceTags(), secondClient.getBounceTags(), firstClient.getBounceTags()]);
+
+        expect(counter.maxActive).to.equal(1);
+    });
+
+    it('is not shared by clients with different tokens', async () => {
+        const counter = { active: 0, maxActive: 0 };
+        const options = createOptions({ maxConcurrent: 1 }, counter);
+
+        const firstClient = new postmark.ServerClient('firstRateLimitToken', options);
+        const secondClient = new postmark.ServerClient('secondRateLimitToken', options);
+
+        await Promise.all([firstClient.getBounceTags(), secondClient.getBounceTags()]);
+
+        expect(counter.maxActive).to.equal(2);
+    });
+
+    it('removes aborted requests from the queue', async () => {
+        const limiter = new RateLimiter({ maxConcurrent: 1 });
+        const controller = new AbortController();
+        const started: number[] = [];
+        const task = (value: number) => () => {
+            started.push(value);
+            return delayed(value, 10);
+        };
+
+        const first = limiter.schedule(task(1));
+        const aborted = limiter.schedule(task(2), controller.signal);
+        const third = limiter.schedule(task(3));
+
+        controller.abort();
+        expect(limiter.pendingCount).to.equal(1);
+
+        await aborted.then(() => { throw new Error('Task should be aborted.'); }, error => {
+            expect(error).to.be.instanceOf(postmark.Errors.RequestAbortedError);
+        });
+        await Promise.all([first, third]);
+
+        expect(started).to.eql([1, 3]);
+    });
+
+    it('rejects shared limiter with different limits', () => {
+        RateLimiter.shared('conflictingRateLimitKey', { maxConcurrent: 1 });
+
+        expect(() => RateLimiter.shared('conflictingRateLimitKey', { maxConcurrent: 2 }))
+            .to.throw(postmark.Errors.PostmarkError, "Rate limiter 'conflictingRateLimitKey' is already used with different limits.");
+    });
+});
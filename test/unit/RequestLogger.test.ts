@@ -0,0 +1,122 @@
+import { RequestLogger } from "../../src/client/RequestLogger";
+import * as postmark from "../../src";
+import { ClientOptions, LogEvent, LogLevel, TransportRequest } from "../../src/client/models";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('RequestLogger', () => {
+    let entries: { level: string, message: string, event: LogEvent }[];
+
+    const logger = {
+        debug: (message: string, event: LogEvent) => entries.push({ level: 'debug', message: message, event: event }),
+        info: (message: string, event: LogEvent) => entries.push({ level: 'info', message: message, event: event }),
+        warn: (message: string, event: LogEvent) => entries.push({ level: 'warn', message: message, event: event }),
+        error: (message: string, event: LogEvent) => entries.push({ level: 'error', message: message, event: event })
+    };
+
+    const request: TransportRequest = {
+        method: ClientOptions.HttpMethod.POST,
+        url: 'https://api.postmarkapp.com/email',
+        headers: { 'X-Postmark-Server-Token': 'secretToken', 'Accept': 'application/json' },
+        queryParameters: {},
+        body: {
+            From: 'from@example.com',
+            Attachments: [{ Name: 'file.txt', Content: 'c2VjcmV0', ContentType: 'text/plain' }]
+        },
+        timeout: 1000
+    };
+
+    beforeEach(() => {
+        entries = [];
+    });
+
+    it('redacts token headers', () => {
+        new RequestLogger({ logger: logger, level: LogLevel.Debug }).logRequest(request);
+
+        expect(entries.length).to.equal(1);
+        expect(entries[0].level).to.equal('debug');
+        expect(entries[0].event.headers).to.eql({ 'X-Postmark-Server-Token': '[REDACTED]', 'Accept': 'application/json' });
+        expect(JSON.stringify(entries[0].event)).not.to.contain('secretToken');
+    });
+
+    it('redacts attachment content', () => {
+        new RequestLogger({ logger: logger, level: LogLevel.Debug }).logRequest({
+            ...request, body: [request.body, { Messages: [request.body] }]
+        });
+
+        expect(entries[0].event.body).not.to.contain('c2VjcmV0');
+        expect(entries[0].event.body).to.contain('file.txt');
+        expect((<any>request.body).Attachments[0].Content).to.equal('c2VjcmV0');
+    });
+
+    it('redacts API tokens in responses', () => {
+        new RequestLogger({ logger: logger }).logResponse(request, {
+            statusCode: 200,
+            headers: {},
+            body: { Servers: [{ Name: 'Server', ApiTokens: ['serverToken'] }], Note: 'Token secretToken' }
+        }, 10);
+
+        expect(entries[0].event.responseBody).to.equal('{"Servers":[{"Name":"Server","ApiTokens":["[REDACTED]"]}],"Note":"Token [REDACTED]"}');
+    });
+
+    it('ignores logger errors', () => {
+        const failingLogger = { ...logger, info: () => { throw new Error('Logger failed'); } };
+
+        new RequestLogger({ logger: failingLogger }).logResponse(request, { statusCode: 200, headers: {}, body: {} }, 10);
+    });
+
+    it('truncates bodies', () => {
+        new RequestLogger({ logger: logger, level: LogLevel.Debug, maxBodyLength: 10 }).logRequest(request);
+
+        expect(entries[0].event.body).to.match(/^.{10}\.\.\. \(\d+ more characters\)$/);
+    });
+
+    it('respects log level', () => {
+        const requestLogger = new RequestLogger({ logger: logger });
+        requestLogger.logRequest(request);
+        requestLogger.logResponse(request, { statusCode: 200, headers: {}, body: { Message: 'OK' } }, 5);
+        requestLogger.logResponse(request, { statusCode: 422, headers: {}, body: { Message: 'Invalid' } }, 5);
+
+        expect(entries.map(entry => entry.level)).to.eql(['info', 'warn']);
+        expect(entries[0].event.statusCode).to.equal(200);
+        expect(entries[0].event.durationMs).to.equal(5);
+        expect(entries[0].event.responseBody).to.equal('{"Message":"OK"}');
+
+        entries = [];
+        new RequestLogger({ logger: logger, level: LogLevel.Silent }).logError(request, new Error('failure'), 5);
+        expect(entries.length).to.equal(0);
+    });
+
+    it('logs errors', () => {
+        const error: any = new Error('Connection refused');
+        error.code = 'ECONNREFUSED';
+        new RequestLogger({ logger: logger }).logError(request, error, 5);
+
+        expect(entries[0].level).to.equal('error');
+        expect(entries[0].event.event).to.equal('error');
+        expect(entries[0].event.error).to.eql({ name: 'Error', message: 'Connection refused', code: 'ECONNREFUSED' });
+    });
+
+    it('logs system code of network errors', () => {
+        new RequestLogger({ logger: logger }).logError(request, new postmark.Errors.TimeoutError('Timed out', 'ETIMEDOUT'), 5);
+
+        expect(entries[0].event.error).to.eql({ name: 'TimeoutError', message: 'Timed out', code: 'ETIMEDOUT' });
+    });
+
+    it('logs client requests', async () => {
+        const client = new postmark.ServerClient('secretToken', {
+            useHttps: true,
+            requestHost: 'api.postmarkapp.com',
+            timeout: 10,
+            logging: { logger: logger, level: LogLevel.Debug },
+            transport: { request: () => Promise.resolve({ statusCode: 200, headers: {}, body: [] }) }
+        });
+
+        await client.getBounceTags();
+
+        expect(entries.map(entry => entry.event.event)).to.eql(['request', 'response']);
+        expect(entries[1].event.method).to.equal('GET');
+        expect(JSON.stringify(entries)).not.to.contain('secretToken');
+    });
+});
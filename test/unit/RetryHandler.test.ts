@@ -0,0 +1,167 @@
+import { RetryHandler } from "../../src/client/RetryHandler";
+import { ClientOptions } from "../../src/client/models";
+import * as postmark from "../../src";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('RetryHandler', () => {
+    const GET = ClientOptions.HttpMethod.GET;
+    const POST = ClientOptions.HttpMethod.POST;
+
+    function networkError(code: string): Error {
+        const error: any = new Error(code);
+        error.code = code;
+        return error;
+    }
+
+    describe('shouldRetry', () => {
+        const retryHandler = new RetryHandler();
+
+        it('retryable status for GET', () => {
+            expect(retryHandler.shouldRetry(GET, { statusCode: 503, headers: {}, body: {} }, 1)).to.equal(true);
+            expect(retryHandler.shouldRetry(GET, { statusCode: 422, headers: {}, body: {} }, 1)).to.equal(false);
+        });
+
+        it('retryable status for POST', () => {
+            expect(retryHandler.shouldRetry(POST, { statusCode: 503, headers: {}, body: {} }, 1)).to.equal(false);
+        });
+
+        it('network errors', () => {
+            expect(retryHandler.shouldRetry(GET, networkError('ECONNRESET'), 1)).to.equal(true);
+            expect(retryHandler.shouldRetry(POST, networkError('ECONNRESET'), 1)).to.equal(false);
+            expect(retryHandler.shouldRetry(POST, networkError('ECONNREFUSED'), 1)).to.equal(true);
+        });
+
+        it('network errors returned as Postmark errors', () => {
+            expect(retryHandler.shouldRetry(GET, new postmark.Errors.TimeoutError('Timeout', 'ETIMEDOUT'), 1)).to.equal(true);
+            expect(retryHandler.shouldRetry(POST, new postmark.Errors.NetworkError('Refused', 'ECONNREFUSED'), 1)).to.equal(true);
+            expect(retryHandler.shouldRetry(GET, new postmark.Errors.RequestAbortedError('Aborted'), 1)).to.equal(false);
+        });
+
+        it('max attempts', () => {
+            expect(retryHandler.shouldRetry(GET, { statusCode: 503, headers: {}, body: {} }, 3)).to.equal(false);
+        });
+
+        it('custom policy', () => {
+            const customHandler = new RetryHandler({ maxAttempts: 5, retryableMethods: [GET, POST] });
+
+            expect(customHandler.shouldRetry(POST, { statusCode: 500, headers: {}, body: {} }, 4)).to.equal(true);
+            expect(customHandler.shouldRetry(POST, { statusCode: 500, headers: {}, body: {} }, 5)).to.equal(false);
+        });
+    });
+
+    describe('getDelay', () => {
+        it('exponential backoff', () => {
+            const retryHandler = new RetryHandler({ initialDelay: 100, maxDelay: 1000, jitter: false });
+
+            expect(retryHandler.getDelay(1)).to.equal(100);
+            expect(retryHandler.getDelay(2)).to.equal(200);
+            expect(retryHandler.getDelay(3)).to.equal(400);
+            expect(retryHandler.getDelay(5)).to.equal(1000);
+        });
+
+        it('jitter', () => {
+            const retryHandler = new RetryHandler({ initialDelay: 100, jitter: true });
+            const delay = retryHandler.getDelay(2);
+
+            expect(delay).to.be.at.least(0);
+            expect(delay).to.be.at.most(200);
+        });
+
+        it('retry-after header', () => {
+            const retryHandler = new RetryHandler({ maxDelay: 3000 });
+
+            expect(retryHandler.getDelay(1, { statusCode: 429, headers: { 'retry-after': '2' }, body: {} })).to.equal(2000);
+            expect(retryHandler.getDelay(1, { statusCode: 429, headers: { 'retry-after': '10' }, body: {} })).to.equal(3000);
+        });
+    });
+
+    describe('client', () => {
+        function clientWithResponses(responses: any[], requests: any[], retryPolicy: postmark.Models.RetryPolicy = { initialDelay: 1 }): postmark.ServerClient {
+            return new postmark.ServerClient('testToken', {
+                useHttps: true,
+                requestHost: 'api.postmarkapp.com',
+                timeout: 10,
+                retryPolicy: retryPolicy,
+                transport: {
+                    request: (request: postmark.Models.TransportRequest) => {
+                        requests.push(request);
+                        const response = responses.shift();
+                        return (response instanceof Error) ? Promise.reject(response) : Promise.resolve(response);
+                    }
+                }
+            });
+        }
+
+        it('retries GET requests', async () => {
+            const requests: any[] = [];
+            const client = clientWithResponses([
+                { statusCode: 503, headers: {}, body: { ErrorCode: 0, Message: 'Unavailable' } },
+                { statusCode: 200, headers: {}, body: ['tag'] }
+            ], requests);
+
+            const tags = await client.getBounceTags();
+            expect(tags).to.eql(['tag']);
+            expect(requests.length).to.equal(2);
+        });
+
+        it('reports number of attempts', () => {
+            const requests: any[] = [];
+            const failure = { statusCode: 503, headers: {}, body: { ErrorCode: 0, Message: 'Unavailable.' } };
+            const client = clientWithResponses([failure, failure, failure], requests);
+
+            return client.getBounceTags().then(() => { throw new Error('Request should fail.'); }, error => {
+                expect(error).to.be.an.instanceof(postmark.Errors.ServiceUnavailablerError);
+                expect(error.attempts).to.equal(3);
+                expect(error.message).to.equal('Unavailable. Request failed after 3 attempts.');
+                expect(requests.length).to.equal(3);
+            });
+        });
+
+        it('does not retry sending which reached the server', () => {
+            const requests: any[] = [];
+            const client = clientWithResponses([networkError('ECONNRESET')], requests);
+
+            return client.sendEmail(new postmark.Message('from@example.com', 'Subject', 'Body', undefined, 'to@example.com'))
+                .then(() => { throw new Error('Request should fail.'); }, error => {
+                    expect(error.attempts).to.equal(1);
+                    expect(requests.length).to.equal(1);
+                });
+        });
+
+        it('retries sending which did not reach the server', async () => {
+            const requests: any[] = [];
+            const client = clientWithResponses([
+                networkError('ECONNREFUSED'),
+                { statusCode: 200, headers: {}, body: { ErrorCode: 0, Message: 'OK' } }
+            ], requests);
+
+            const response = await client.sendEmail(new postmark.Message('from@example.com', 'Subject', 'Body', undefined, 'to@example.com'));
+            expect(response.Message).to.equal('OK');
+            expect(requests.length).to.equal(2);
+        });
+
+        it('does not retry after request is aborted during backoff', async () => {
+            const requests: any[] = [];
+            const failure = { statusCode: 503, headers: {}, body: { ErrorCode: 0, Message: 'Unavailable.' } };
+            const attempts: any[] = [];
+            const client = clientWithResponses([failure, failure], requests, { initialDelay: 50, jitter: false })
+                .use((request, next) => { attempts.push(request); return next(request); });
+            const controller = new AbortController();
+
+            setTimeout(() => controller.abort(), 10);
+
+            try {
+                await client.getBounceTags(undefined, { signal: controller.signal });
+                throw new Error('Request should fail.');
+            } catch (error) {
+                expect(error).to.be.an.instanceof(postmark.Errors.RequestAbortedError);
+            }
+
+            await new Promise(resolve => setTimeout(resolve, 100));
+            expect(attempts.length).to.equal(1);
+            expect(requests.length).to.equal(1);
+        });
+    });
+});
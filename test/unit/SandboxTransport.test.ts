@@ -0,0 +1,119 @@
+import * as postmark from "../../src";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('SandboxTransport', () => {
+    let sandbox: postmark.SandboxTransport;
+    let client: postmark.ServerClient;
+
+    beforeEach(() => {
+        sandbox = new postmark.SandboxTransport({ inactiveRecipients: ['inactive@example.com'] });
+        client = new postmark.ServerClient('testToken', {
+            useHttps: true,
+            requestHost: 'api.postmarkapp.com',
+            timeout: 10,
+            transport: sandbox
+        });
+    });
+
+    const expectError = async (call: Promise<any>, errorCode: number): Promise<postmark.Errors.PostmarkError> => {
+        try {
+            await call;
+        } catch (error) {
+            expect(error.code).to.equal(errorCode);
+            return error;
+        }
+        throw new Error('Call should fail.');
+    };
+
+    it('records sent messages', async () => {
+        const response = await client.sendEmail(
+            new postmark.Message('from@example.com', 'Subject', undefined, 'Text', 'John <to@example.com>'));
+
+        expect(response.ErrorCode).to.equal(0);
+        expect(response.To).to.equal('John <to@example.com>');
+        expect(response.MessageID).to.match(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+        expect(new Date(response.SubmittedAt).getTime()).to.be.above(0);
+        expect(sandbox.outbox.length).to.equal(1);
+        expect(sandbox.outbox[0].path).to.equal('/email');
+        expect((<postmark.Message>sandbox.outbox[0].message).Subject).to.equal('Subject');
+        expect(sandbox.outbox[0].response).to.eql(response);
+    });
+
+    it('records templated messages', async () => {
+        await client.sendEmailWithTemplate(new postmark.TemplatedMessage('from@example.com', 'welcome', { name: 'John' }, 'to@example.com'));
+
+        expect(sandbox.outbox[0].path).to.equal('/email/withTemplate');
+        expect((<postmark.TemplatedMessage>sandbox.outbox[0].message).TemplateModel).to.eql({ name: 'John' });
+    });
+
+    it('rejects missing From address', async () => {
+        const error = await expectError(client.sendEmail(new postmark.Message('', 'Subject', 'Html', undefined, 'to@example.com')),
+            postmark.Models.ErrorCode.InvalidEmailRequest);
+
+        expect(error).to.be.instanceOf(postmark.Errors.InvalidEmailRequestError);
+        expect(sandbox.outbox.length).to.equal(0);
+    });
+
+    it('rejects invalid address', async () => {
+        const error = await expectError(client.sendEmail(new postmark.Message('from@example.com', 'Subject', 'Html', undefined, 'to@example.com, invalid')),
+            postmark.Models.ErrorCode.InvalidEmailRequest);
+
+        expect(error.message).to.equal("Invalid 'To' address: 'invalid'.");
+    });
+
+    it('rejects too many recipients', async () => {
+        const recipients = Array.apply(null, Array(51)).map((value: any, index: number) => `to${index}@example.com`);
+
+        await expectError(client.sendEmail(new postmark.Message('from@example.com', 'Subject', 'Html', undefined, recipients.join(','))),
+            postmark.Models.ErrorCode.InvalidEmailRequest);
+    });
+
+    it('rejects inactive recipient', async () => {
+        const error = await expectError(client.sendEmail(new postmark.Message('from@example.com', 'Subject', 'Html', undefined, 'Inactive@example.com')),
+            postmark.Models.ErrorCode.InactiveRecipient);
+
+        expect(error).to.be.instanceOf(postmark.Errors.InactiveRecipientError);
+    });
+
+    it('accepts batch messages one by one', async () => {
+        const responses = await client.sendEmailBatch([
+            new postmark.Message('from@example.com', 'First', 'Html', undefined, 'to@example.com'),
+            new postmark.Message('from@example.com', 'Second', undefined, undefined, 'to@example.com')
+        ]);
+
+        expect(responses.map(response => response.ErrorCode)).to.eql([0, 300]);
+        expect(responses[1].MessageID).to.equal(undefined);
+        expect(sandbox.outbox.map(message => (<postmark.Message>message.message).Subject)).to.eql(['First']);
+    });
+
+    it('rejects too large batch', async () => {
+        const messages = Array.apply(null, Array(501)).map(() => new postmark.Message('from@example.com', 'Subject', 'Html', undefined, 'to@example.com'));
+
+        const response = await sandbox.request({
+            method: postmark.Models.ClientOptions.HttpMethod.POST,
+            url: 'https://api.postmarkapp.com/email/batch',
+            headers: {},
+            queryParameters: {},
+            body: messages,
+            timeout: 1000
+        });
+
+        expect(response.statusCode).to.equal(422);
+        expect(response.body.ErrorCode).to.equal(postmark.Models.ErrorCode.TooManyBatchMessages);
+    });
+
+    it('rejects unsupported requests', async () => {
+        const error = await expectError(client.getBounceTags(), 0);
+
+        expect(error).to.be.instanceOf(postmark.Errors.NotFoundError);
+    });
+
+    it('clears outbox', async () => {
+        await client.sendEmail(new postmark.Message('from@example.com', 'Subject', 'Html', undefined, 'to@example.com'));
+        sandbox.clear();
+
+        expect(sandbox.outbox).to.eql([]);
+    });
+});
@@ -111,4 +111,196 @@ describe('ServerClient', () => {
             });
         });
     });
-});
\ No newline at end of file
+});
+
+describe('ServerClient requests', () => {
+    let client: postmark.ServerClient;
+    const serverToken: string = 'testToken';
+
+    describe('request URL', () => {
+        function requestedUrl(clientOptions: postmark.Models.ClientOptions.Configuration): Promise<string> {
+            let url = '';
+            clientOptions.transport = {
+                request: (request: postmark.Models.TransportRequest) => {
+                    url = request.url;
+                    return Promise.resolve({ statusCode: 200, headers: {}, body: [] });
+                }
+            };
+
+            return new postmark.ServerClient(serverToken, clientOptions).getBounceTags().then(() => url);
+        }
+
+        it('request host', async () => {
+            const url = await requestedUrl({ useHttps: true, requestHost: 'api.postmarkapp.com', timeout: 10 });
+            expect(url).to.equal('https://api.postmarkapp.com/bounces/tags');
+        });
+
+        it('base URL with path prefix', async () => {
+            const url = await requestedUrl({
+                useHttps: true, requestHost: 'api.postmarkapp.com', timeout: 10, baseUrl: 'http://localhost:8080/postmark/'
+            });
+            expect(url).to.equal('http://localhost:8080/postmark/bounces/tags');
+        });
+
+        it('base URL without trailing slash', async () => {
+            const url = await requestedUrl({
+                useHttps: true, requestHost: 'api.postmarkapp.com', timeout: 10, baseUrl: 'http://localhost:8080/postmark'
+            });
+            expect(url).to.equal('http://localhost:8080/postmark/bounces/tags');
+        });
+
+        it('invalid base URL', () => {
+            expect(() => new postmark.ServerClient(serverToken, {
+                useHttps: true, requestHost: 'api.postmarkapp.com', timeout: 10, baseUrl: 'localhost:8080'
+            })).to.throw('Base URL must be an absolute http or https URL');
+        });
+    });
+
+    describe('transport', () => {
+        it('uses custom transport', async () => {
+            const requests: postmark.Models.TransportRequest[] = [];
+            client = new postmark.ServerClient(serverToken, {
+                useHttps: true,
+                requestHost: 'api.postmarkapp.com',
+                timeout: 10,
+                transport: {
+                    request: (request: postmark.Models.TransportRequest) => {
+                        requests.push(request);
+                        return Promise.resolve({ statusCode: 200, headers: {}, body: ['tag'] });
+                    }
+                }
+            });
+
+            const tags = await client.getBounceTags();
+
+            expect(tags).to.eql(['tag']);
+            expect(requests.length).to.equal(1);
+            expect(requests[0].method).to.equal('GET');
+            expect(requests[0].url).to.contain('/bounces/tags');
+            expect(requests[0].headers['X-Postmark-Server-Token']).to.equal(serverToken);
+            expect(requests[0].timeout).to.equal(10000);
+        });
+
+        it('passes connection options to transport', async () => {
+            const requests: postmark.Models.TransportRequest[] = [];
+            const clientOptions = new postmark.Models.ClientOptions.Configuration(true, 'api.postmarkapp.com', 10);
+            clientOptions.proxy = 'http://proxy.example.com:8080';
+            clientOptions.ca = 'certificate';
+            clientOptions.keepAlive = true;
+            clientOptions.transport = {
+                request: (request: postmark.Models.TransportRequest) => {
+                    requests.push(request);
+                    return Promise.resolve({ statusCode: 200, headers: {}, body: [] });
+                }
+            };
+
+            await new postmark.ServerClient(serverToken, clientOptions).getBounceTags();
+
+            expect(requests[0].connection).to.eql({
+                proxy: 'http://proxy.example.com:8080',
+                ca: 'certificate',
+                keepAlive: true,
+                agent: undefined
+            });
+        });
+
+        it('rejects non 200 responses from custom transport', () => {
+            client = new postmark.ServerClient(serverToken, {
+                useHttps: true,
+                requestHost: 'api.postmarkapp.com',
+                timeout: 10,
+                transport: {
+                    request: () => Promise.resolve({
+                        statusCode: 422, headers: {}, body: { ErrorCode: 300, Message: 'Invalid email request' }
+                    })
+                }
+            });
+
+            return client.getBounceTags().then(() => { throw new Error('Request should fail.'); }, error => {
+                expect(error).to.be.an.instanceof(postmark.Errors.ApiInputError);
+                expect(error.code).to.equal(300);
+            });
+        });
+    });
+
+    describe('cancellation', () => {
+        function clientWithPendingTransport(): postmark.ServerClient {
+            return new postmark.ServerClient(serverToken, {
+                useHttps: true,
+                requestHost: 'api.postmarkapp.com',
+                timeout: 10,
+                transport: { request: () => new Promise<postmark.Models.TransportResponse>(() => { }) }
+            });
+        }
+
+        it('rejects aborted request', () => {
+            const controller = new AbortController();
+            const request = clientWithPendingTransport().getBounceTags(undefined, { signal: controller.signal });
+            controller.abort();
+
+            return request.then(() => { throw new Error('Request should be aborted.'); }, error => {
+                expect(error).to.be.an.instanceof(postmark.Errors.RequestAbortedError);
+                expect(error.name).to.equal('RequestAbortedError');
+            });
+        });
+
+        it('rejects request with already aborted signal', () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            return clientWithPendingTransport().sendEmail(new postmark.Message('from@example.com', 'Subject'), undefined,
+                { signal: controller.signal }).then(() => { throw new Error('Request should be aborted.'); }, error => {
+                expect(error).to.be.an.instanceof(postmark.Errors.RequestAbortedError);
+            });
+        });
+
+        it('passes aborted error to callback', done => {
+            const controller = new AbortController();
+            clientWithPendingTransport().getBounceTags((error: any, data) => {
+                expect(data).to.equal(null);
+                expect(error.name).to.equal('RequestAbortedError');
+                done();
+            }, { signal: controller.signal });
+            controller.abort();
+        });
+    });
+
+    describe('response metadata', () => {
+        beforeEach(() => {
+            client = new postmark.ServerClient(serverToken, {
+                useHttps: true,
+                requestHost: 'api.postmarkapp.com',
+                timeout: 10,
+                transport: {
+                    request: () => Promise.resolve({
+                        statusCode: 200, headers: { 'x-request-id': 'request' }, body: ['tag']
+                    })
+                }
+            });
+        });
+
+        it('withResponse', async () => {
+            const response = await client.withResponse(options => client.getBounceTags(undefined, options));
+
+            expect(response.data).to.eql(['tag']);
+            expect(response.status).to.equal(200);
+            expect(response.headers).to.include({ 'x-request-id': 'request' });
+            expect(response.durationMs).to.be.at.least(0);
+        });
+
+        it('withResponse without HTTP response', async () => {
+            const response = await client.withResponse(options => client.sendEmailBatch([], undefined, options));
+
+            expect(response).to.eql({ data: [], status: null, headers: null, durationMs: null });
+        });
+
+        it('onResponse request option', async () => {
+            let metadata: any;
+            const tags = await client.getBounceTags(undefined, { onResponse: response => metadata = response });
+
+            expect(tags).to.eql(['tag']);
+            expect(metadata.status).to.equal(200);
+            expect(metadata.data).to.eql(['tag']);
+        });
+    });
+});
@@ -0,0 +1,55 @@
+import * as postmark from "../../src";
+
+import { expect } from 'chai';
+import 'mocha';
+
+describe('TemplateRenderer', () => {
+    const renderer = new postmark.TemplateRenderer();
+
+    it('renders variables and dotted paths', () => {
+        const result = renderer.render({ Subject: 'Hello {{customer.name}}', TextBody: 'Total: {{total}}' }, { customer: { name: 'John' }, total: 10 });
+
+        expect(result.AllContentIsValid).to.equal(true);
+        expect(result.Subject.RenderedContent).to.equal('Hello John');
+        expect(result.TextBody.RenderedContent).to.equal('Total: 10');
+    });
+
+    it('escapes variables only in HTML body', () => {
+        const result = renderer.render({ Subject: '{{name}}', HtmlBody: '<p>{{name}} {{{name}}} {{& name}}</p>' }, { name: '<b>Tom & Jerry</b>' });
+
+        expect(result.Subject.RenderedContent).to.equal('<b>Tom & Jerry</b>');
+        expect(result.HtmlBody.RenderedContent).to.equal('<p>&lt;b&gt;Tom &amp; Jerry&lt;/b&gt; <b>Tom & Jerry</b> <b>Tom & Jerry</b></p>');
+    });
+
+    it('renders sections, inverted sections and collections', () => {
+        const template = {
+            TextBody: '{{#customer}}{{name}}:{{/customer}}{{#each items}} {{name}} x{{quantity}} ({{../currency}}){{/each}}{{^items}}No items{{/items}}{{^discount}}, no discount{{/discount}}'
+        };
+
+        expect(renderer.render(template, { customer: { name: 'John' }, currency: 'USD', items: [{ name: 'Book', quantity: 2 }, { name: 'Pen', quantity: 1 }], discount: false })
+            .TextBody.RenderedContent).to.equal('John: Book x2 (USD) Pen x1 (USD), no discount');
+        expect(renderer.render(template, { items: [] }).TextBody.RenderedContent).to.equal('No items, no discount');
+    });
+
+    it('reports missing variables and suggests model', () => {
+        const result = renderer.render({ Subject: 'Hi {{name}}', HtmlBody: 'Line\n{{#each items}}{{title}}{{/each}}' }, { items: [{}, {}] });
+
+        expect(result.AllContentIsValid).to.equal(true);
+        expect(result.Subject.ValidationErrors).to.eql([{ Message: "The variable 'name' is not defined in the model.", Line: 1, CharacterPosition: 4 }]);
+        expect(result.HtmlBody.ValidationErrors).to.eql([{ Message: "The variable 'title' is not defined in the model.", Line: 2, CharacterPosition: 16 }]);
+        expect(result.SuggestedTemplateModel).to.eql({ name: 'name_Value', items: [{ title: 'title_Value' }] });
+        expect(new postmark.TemplateRenderer({ strict: true }).render({ Subject: 'Hi {{name}}' }, {}).AllContentIsValid).to.equal(false);
+    });
+
+    it('reports syntax errors', () => {
+        const result = renderer.render({ HtmlBody: '{{#items}}\n{{/item}}', TextBody: '{{#each items}}' }, {});
+
+        expect(result.AllContentIsValid).to.equal(false);
+        expect(result.HtmlBody).to.eql({
+            ContentIsValid: false, RenderedContent: '',
+            ValidationErrors: [{ Message: "Closing tag '{{/item}}' doesn't match any open section.", Line: 2, CharacterPosition: 1 }]
+        });
+        expect(result.TextBody.ValidationErrors[0].Message).to.equal("Section 'items' is not closed.");
+        expect(result.Subject.ContentIsValid).to.equal(true);
+    });
+});